@@ -1,11 +1,36 @@
 import React, { useState, useEffect } from 'react';
-import { GameState, CarStats, RaceResult, Opponent, CarDesign, GhostReplay } from './types';
-import { TOTAL_STAT_POINTS, MIN_STAT, MAX_STAT } from './constants';
+import { GameState, CarStats, RaceResult, Opponent, CarDesign, GhostReplay, TreeType, TrackId, PlayerProfile, RunRecord, GameMode, CareerSave, TournamentState, SavedBuild, VersusEntry, VersusResult as VersusResultData } from './types';
 import Garage from './components/Garage';
 import CarDesigner from './components/CarDesigner';
+import GearboxTuner from './components/GearboxTuner';
 import RaceTrack from './components/RaceTrack';
 import ResultScreen from './components/ResultScreen';
-import { generateOpponent } from './services/geminiService';
+import CareerHub from './components/CareerHub';
+import TournamentBracket from './components/TournamentBracket';
+import VersusSetup from './components/VersusSetup';
+import VersusTrack from './components/VersusTrack';
+import VersusResult from './components/VersusResult';
+import OnlineLobby from './components/OnlineLobby';
+import { createOpponentPool } from './services/opponentPool';
+import { generateLivery } from './services/livery';
+import { generateOpponentStats } from './services/opponentStats';
+import { rollDriverProfile } from './services/driverProfiles';
+import {
+  NEW_PLAYER, XpBreakdown, applyRaceResult, raceXp, levelForXp, xpForLevel,
+  matchmakingLevel, opponentStatBudget, opponentDifficulty
+} from './services/progression';
+import { runRecord, buildKey, RUN_HISTORY_SIZE } from './services/crewChief';
+import {
+  NEW_CAREER, CAREER_TIERS, CareerOutcome, applyCareerResult, careerOpponent, canRace, entryFee
+} from './services/career';
+import {
+  createTournament, entrantOpponent, isQualifying, playerOpponent, recordPlayerRace, recordQualifying, withinRetuneBudget
+} from './services/tournament';
+import { createRng, nextSeed, randomSeed } from './services/rng';
+import { RelayClient, RelayEvent, createRelayClient } from './services/relayClient';
+import { ClientMessage } from './services/netProtocol';
+import { MAX_LEVEL, TOTAL_STAT_POINTS, TOURNAMENT_RETUNE_POINTS } from './constants';
+import { TRACKS, DEFAULT_TRACK_ID, SURFACE_GRIP, airDensity } from './services/tracks';
 
 // Default mock opponent if API fails or not used immediately
 const DEFAULT_OPPONENT: Opponent = {
@@ -17,52 +42,119 @@ const DEFAULT_OPPONENT: Opponent = {
   stats: { acceleration: 6, topSpeed: 6, grip: 6 }
 };
 
+const opponentPool = createOpponentPool({ size: 5, lowWater: 2 });
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
+  const [mode, setMode] = useState<GameMode>('QUICK_RACE');
   const [carStats, setCarStats] = useState<CarStats>({
     acceleration: 6,
     topSpeed: 6,
     grip: 6,
+    nitrous: { bottleSize: 0, shotSize: 100 },
   });
   const [carDesign, setCarDesign] = useState<CarDesign | undefined>(undefined);
   const [opponent, setOpponent] = useState<Opponent>(DEFAULT_OPPONENT);
   const [lastResult, setLastResult] = useState<RaceResult | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [bestGhost, setBestGhost] = useState<GhostReplay | null>(null);
+  const [player, setPlayer] = useState<PlayerProfile>(NEW_PLAYER);
+  const [lastXp, setLastXp] = useState<XpBreakdown | null>(null);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>([]);
+  const [career, setCareer] = useState<CareerSave>(NEW_CAREER);
+  // Ladder position of the career race being run, and what the last one paid out
+  const [careerMatch, setCareerMatch] = useState<{ tier: number; rung: number } | null>(null);
+  const [lastCareer, setLastCareer] = useState<CareerOutcome | null>(null);
+  const [tournament, setTournament] = useState<TournamentState | null>(null);
+  const [savedBuilds, setSavedBuilds] = useState<SavedBuild[]>([]);
+  const [versusEntries, setVersusEntries] = useState<[VersusEntry, VersusEntry] | null>(null);
+  const [versusResult, setVersusResult] = useState<VersusResultData | null>(null);
+  const [versusRound, setVersusRound] = useState(0); // Remounts the track for a rematch
+  const [relay, setRelay] = useState<RelayClient | null>(null);
+  // `failed`: the status is an error, so later progress messages don't cover it up
+  const [onlineLobby, setOnlineLobby] = useState<{ code: string | null; status: string | null; failed?: boolean }>({ code: null, status: null });
+  const [onlineMatch, setOnlineMatch] = useState<{ seed: number; trackId: TrackId; treeType: TreeType } | null>(null);
+  const [trialRun, setTrialRun] = useState(0); // Remounts the track for an instant restart
+  const [practice, setPractice] = useState(false);
+  // Every race gets its own seed, drawn from one seeded per session: rivals keep their driver
+  // profile but don't repeat their rolls, and a result can be replayed from the seed it keeps
+  const [seedSource] = useState(() => createRng(randomSeed()));
+  const [raceSeed, setRaceSeed] = useState(() => nextSeed(seedSource));
+  // Best ghosts are kept per track so times are never compared across distances
+  const [bestGhosts, setBestGhosts] = useState<Partial<Record<TrackId, GhostReplay>>>({});
   const [activeGhost, setActiveGhost] = useState<GhostReplay | undefined>(undefined);
+  const [treeType, setTreeType] = useState<TreeType>('PRO');
+  const [trackId, setTrackId] = useState<TrackId>(DEFAULT_TRACK_ID);
+  const bestGhost = bestGhosts[trackId] ?? null;
+  // Career and tournament races are run on their own strip with a Pro tree; online ones on the host's
+  const raceTrackId = mode === 'CAREER' && careerMatch ? CAREER_TIERS[careerMatch.tier].trackId
+    : mode === 'TOURNAMENT' && tournament ? tournament.trackId
+    : mode === 'ONLINE' && onlineMatch ? onlineMatch.trackId
+    : trackId;
+  const raceTreeType = mode === 'QUICK_RACE' || mode === 'TIME_TRIAL' ? treeType
+    : mode === 'ONLINE' && onlineMatch ? onlineMatch.treeType
+    : 'PRO';
+  // The car has to be legal and running before it can be entered
+  const carReady = carStats.acceleration + carStats.topSpeed + carStats.grip === TOTAL_STAT_POINTS && (carStats.engineDamage ?? 0) < 1;
+  const playerLevel = levelForXp(player.xp);
+  const levelStartXp = xpForLevel(playerLevel);
+  const levelProgress = playerLevel >= MAX_LEVEL ? 1 : (player.xp - levelStartXp) / (xpForLevel(playerLevel + 1) - levelStartXp);
 
-  // Load Best Ghost on Start
+  // Load Best Ghosts on Start
   useEffect(() => {
-    const saved = localStorage.getItem('ndr_best_ghost');
-    if (saved) {
-      try {
-        setBestGhost(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load ghost", e);
-      }
+    try {
+      const saved = localStorage.getItem('ndr_best_ghosts');
+      const ghosts: Partial<Record<TrackId, GhostReplay>> = saved ? JSON.parse(saved) : {};
+      // Single ghost saved before tracks existed was a quarter-mile run
+      const legacy = localStorage.getItem('ndr_best_ghost');
+      if (legacy && !ghosts.QUARTER_MILE) ghosts.QUARTER_MILE = { ...JSON.parse(legacy), trackId: 'QUARTER_MILE' };
+      setBestGhosts(ghosts);
+    } catch (e) {
+      console.error("Failed to load ghost", e);
+    }
+    try {
+      const saved = localStorage.getItem('ndr_player_profile');
+      if (saved) setPlayer({ ...NEW_PLAYER, ...JSON.parse(saved) });
+    } catch (e) {
+      console.error("Failed to load player profile", e);
+    }
+    try {
+      const saved = localStorage.getItem('ndr_run_history');
+      if (saved) setRunHistory(JSON.parse(saved));
+    } catch (e) {
+      console.error("Failed to load run history", e);
+    }
+    try {
+      const saved = localStorage.getItem('ndr_career');
+      if (saved) setCareer({ ...NEW_CAREER, ...JSON.parse(saved) });
+    } catch (e) {
+      console.error("Failed to load career", e);
+    }
+    try {
+      const saved = localStorage.getItem('ndr_tournament');
+      if (saved) setTournament(JSON.parse(saved));
+    } catch (e) {
+      console.error("Failed to load tournament", e);
+    }
+    try {
+      const saved = localStorage.getItem('ndr_saved_builds');
+      if (saved) setSavedBuilds(JSON.parse(saved));
+    } catch (e) {
+      console.error("Failed to load saved builds", e);
     }
   }, []);
 
-  // Distribute points randomly for opponent
-  const generateOpponentStats = (): CarStats => {
-      let remaining = TOTAL_STAT_POINTS;
-      // Start with minimums
-      const stats = { acceleration: MIN_STAT, topSpeed: MIN_STAT, grip: MIN_STAT };
-      remaining -= (MIN_STAT * 3);
-
-      // Randomly distribute remaining
-      const keys: (keyof CarStats)[] = ['acceleration', 'topSpeed', 'grip'];
-      while (remaining > 0) {
-          const randomKey = keys[Math.floor(Math.random() * keys.length)];
-          if (stats[randomKey] < MAX_STAT) {
-              stats[randomKey]++;
-              remaining--;
-          }
-      }
-      return stats;
-  };
-
-  const handleStartRaceSetup = async (useGhost: boolean = false) => {
+  // Keep rivals prefetched while the player is between races
+  useEffect(() => {
+    if (gameState === GameState.MENU || gameState === GameState.GARAGE || gameState === GameState.RACE_INTRO) {
+      void opponentPool.refill(Math.round(matchmakingLevel(player)));
+    }
+  }, [gameState, player]);
+
+  const enterRace = (seed: number = nextSeed(seedSource)) => {
+    setRaceSeed(seed);
+    setGameState(GameState.RACING);
+  };
+
+  const handleStartRaceSetup = (useGhost: boolean = false) => {
     if (useGhost && bestGhost) {
         // Setup for Ghost Race
         setActiveGhost(bestGhost);
@@ -75,57 +167,252 @@ const App: React.FC = () => {
             stats: { acceleration: 0, topSpeed: 0, grip: 0 }, // Not used for ghost
             isGhost: true
         });
-        setGameState(GameState.RACING);
+        enterRace();
         return;
     }
 
     // Standard AI Race
     setActiveGhost(undefined);
-    setIsLoading(true);
-    // Use the Gemini API to fetch a dynamic opponent name/taunt
-    const avgLevel = 5;
-    const genOpponent = await generateOpponent(avgLevel);
-    setIsLoading(false);
+    // Rivals scale with the player's level, nudged by their current streak
+    const rivalLevel = matchmakingLevel(player);
+    const difficulty = opponentDifficulty(rivalLevel);
+    // Prefetched LLM rival (or a local one when the pool is dry), so the race starts instantly
+    const genOpponent = opponentPool.take(Math.round(rivalLevel));
+
+    // Generate balanced stats, from the race's seed so the whole race can be reproduced
+    const seed = nextSeed(seedSource);
+    const rng = createRng(seed);
+    const enemyStats = generateOpponentStats(rng, opponentStatBudget(rivalLevel));
+
+    setOpponent({
+        ...genOpponent,
+        design: generateLivery(genOpponent.seed, genOpponent.color),
+        difficulty,
+        driver: rollDriverProfile(difficulty, rng),
+        stats: enemyStats
+    });
+    
+    enterRace(seed);
+  };
+
+  // Solo passes: no rival, nothing at stake, just the clock. Restarts come through here too,
+  // so a car that blew up on the last pass goes to the Garage instead
+  const handleTimeTrial = () => {
+    if (!carReady) {
+      setGameState(GameState.GARAGE);
+      return;
+    }
+    setMode('TIME_TRIAL');
+    setActiveGhost(undefined);
+    setTrialRun(run => run + 1);
+    enterRace();
+  };
+
+  const saveCareer = (save: CareerSave) => {
+    setCareer(save);
+    localStorage.setItem('ndr_career', JSON.stringify(save));
+  };
+
+  const handleCareerRace = (tier: number, rung: number) => {
+    if (!canRace(career, tier, rung)) return;
+    if (!carReady) {
+      setGameState(GameState.GARAGE);
+      return;
+    }
+    const rival = careerOpponent(tier, rung);
+    saveCareer({ ...career, cash: career.cash - entryFee(tier, rung) });
+    setActiveGhost(undefined);
+    setCareerMatch({ tier, rung });
+    setOpponent({ ...rival, design: generateLivery(rival.seed!, rival.color) });
+    enterRace();
+  };
+
+  const saveTournament = (next: TournamentState | null) => {
+    setTournament(next);
+    if (next) localStorage.setItem('ndr_tournament', JSON.stringify(next));
+    else localStorage.removeItem('ndr_tournament');
+  };
+
+  const handleCreateTournament = (size: number, bestOf: number, tournamentTrack: TrackId) => {
+    const level = Math.round(matchmakingLevel(player));
+    saveTournament(createTournament({
+      size, bestOf, trackId: tournamentTrack, level, seed: randomSeed(),
+      rivals: Array.from({ length: size - 1 }, () => opponentPool.take(level)),
+    }));
+  };
+
+  const handleTournamentRace = () => {
+    const rivalIndex = tournament && playerOpponent(tournament);
+    if (!tournament || rivalIndex === null) return;
+    if (!carReady || !withinRetuneBudget(tournament, carStats)) {
+      setGameState(GameState.GARAGE);
+      return;
+    }
+    const rival = entrantOpponent(tournament, rivalIndex);
+    setActiveGhost(undefined);
+    setOpponent({ ...rival, design: generateLivery(rival.seed!, rival.color) });
+    enterRace();
+  };
 
-    // Generate balanced stats
-    const enemyStats = generateOpponentStats();
+  const saveBuilds = (builds: SavedBuild[]) => {
+    setSavedBuilds(builds);
+    localStorage.setItem('ndr_saved_builds', JSON.stringify(builds));
+  };
+
+  const handleSaveBuild = () => {
+    saveBuilds([...savedBuilds, { id: `${Date.now()}`, name: buildKey(carStats), stats: carStats, design: carDesign }]);
+  };
+
+  // Versus races are between friends: no XP, history or ghosts
+  const handleVersusStart = (entries: [VersusEntry, VersusEntry]) => {
+    setVersusEntries(entries);
+    setVersusRound(round => round + 1);
+    setGameState(GameState.VERSUS_RACING);
+  };
+
+  const handleVersusFinish = (result: VersusResultData) => {
+    setVersusResult(result);
+    setGameState(GameState.VERSUS_RESULT);
+  };
 
-    if (genOpponent) {
+  // The relay decides online races; its result moves the lobby on to the timeslips
+  useEffect(() => {
+    if (mode === 'ONLINE' && versusResult && gameState === GameState.ONLINE_LOBBY) setGameState(GameState.VERSUS_RESULT);
+  }, [mode, versusResult, gameState]);
+
+  const handleRelayMessage = (message: RelayEvent) => {
+    switch (message.type) {
+      case 'lobby':
+        setOnlineLobby({ code: message.code, status: 'Waiting for a rival. Share the code!' });
+        break;
+      case 'start':
+        setOnlineMatch({ seed: message.seed, trackId: message.trackId, treeType: message.treeType });
+        setOnlineLobby(lobby => ({ ...lobby, failed: false }));
         setOpponent({
-            ...genOpponent,
-            difficulty: 1.0,
-            color: '#ff0055',
-            stats: enemyStats
+          name: message.opponent.name,
+          carName: 'Online Rival',
+          taunt: '',
+          difficulty: 1,
+          color: '#10b981',
+          stats: message.opponent.stats,
+          design: message.opponent.design,
         });
-    } else {
-         setOpponent({
-             ...DEFAULT_OPPONENT,
-             name: `Racer X`,
-             stats: enemyStats
-         });
+        setActiveGhost(undefined);
+        setVersusResult(null);
+        setGameState(GameState.RACING);
+        break;
+      case 'result':
+        setVersusResult(message.result);
+        break;
+      case 'left':
+        setOnlineLobby(lobby => ({ ...lobby, status: 'Your rival left the lobby' }));
+        break;
+      case 'error':
+      case 'closed':
+        setOnlineLobby(lobby => ({ ...lobby, status: message.message, failed: true }));
+        break;
     }
-    
-    setGameState(GameState.RACING);
+  };
+
+  const leaveOnline = () => {
+    relay?.close();
+    setRelay(null);
+    setOnlineLobby({ code: null, status: null });
+    setVersusResult(null);
+  };
+
+  const enterLobby = (message: ClientMessage) => {
+    relay?.close();
+    const client = createRelayClient();
+    client.subscribe(handleRelayMessage);
+    client.send(message);
+    setRelay(client);
+    setOnlineLobby({ code: null, status: 'Connecting...' });
+  };
+
+  const handleOnlineCreate = (name: string) =>
+    enterLobby({ type: 'create', player: { name, stats: carStats, design: carDesign }, trackId, treeType });
+
+  const handleOnlineJoin = (name: string, code: string) =>
+    enterLobby({ type: 'join', code, player: { name, stats: carStats, design: carDesign } });
+
+  const handleOnlineRematch = () => {
+    // The relay checks the car again when it stages, so fix it up first
+    if (!carReady) {
+      setGameState(GameState.GARAGE);
+      return;
+    }
+    relay?.send({ type: 'rematch' });
+    setVersusResult(null);
+    setOnlineLobby(lobby => ({ ...lobby, status: 'Waiting for your rival to accept the rematch' }));
+    setGameState(GameState.ONLINE_LOBBY);
   };
 
   const handleRaceFinish = (result: RaceResult) => {
     setLastResult(result);
+    // Engine wear stays on the car until it's repaired in the Garage
+    setCarStats(prev => ({ ...prev, engineDamage: result.engineDamage }));
+
+    // Online races are judged by the relay and don't count towards XP or ghosts
+    if (mode === 'ONLINE') {
+        setOnlineLobby(lobby => lobby.failed ? lobby : { ...lobby, status: 'Checking the timeslips...' });
+        setGameState(GameState.ONLINE_LOBBY);
+        return;
+    }
+    // A time trial stays on the strip for the next pass; only a new best is kept
+    if (mode === 'TIME_TRIAL') {
+        saveBestGhost(result);
+        return;
+    }
     setGameState(GameState.RESULT);
 
-    // Check for new record
-    // Only save if it wasn't a ghost race (or if we beat the ghost? let's simple save faster times always)
-    // Actually, save if it's faster than current best, regardless of mode.
-    if (!bestGhost || result.playerTime < bestGhost.totalTime) {
+    if (mode === 'CAREER' && careerMatch) {
+        const settled = applyCareerResult(career, careerMatch.tier, careerMatch.rung, result);
+        saveCareer(settled.save);
+        setLastCareer(settled.outcome);
+    } else {
+        setLastCareer(null);
+    }
+    if (mode === 'TOURNAMENT' && tournament) {
+        saveTournament(isQualifying(tournament)
+          ? recordQualifying(tournament, result, carStats)
+          : recordPlayerRace(tournament, result, carStats));
+    }
+
+    // Only races against AI rivals count towards XP and the streak
+    if (opponent.isGhost) {
+        setLastXp(null);
+    } else {
+        const updated = applyRaceResult(player, result);
+        setPlayer(updated);
+        setLastXp(raceXp(result));
+        localStorage.setItem('ndr_player_profile', JSON.stringify(updated));
+        // The crew chief reads these in the Garage
+        const history = [...runHistory, runRecord(result, carStats, opponent)].slice(-RUN_HISTORY_SIZE);
+        setRunHistory(history);
+        localStorage.setItem('ndr_run_history', JSON.stringify(history));
+    }
+
+    saveBestGhost(result);
+  };
+
+  // A clean pass quicker than the track's best becomes its ghost, whatever the mode
+  const saveBestGhost = (result: RaceResult) => {
+    const trackBest = bestGhosts[result.trackId];
+    if (!result.dnf && (!trackBest || result.playerTime < trackBest.totalTime)) {
         const newGhost: GhostReplay = {
             id: Date.now().toString(),
             playerName: "You",
             totalTime: result.playerTime,
             data: result.replayData,
             date: Date.now(),
-            design: carDesign
+            design: carDesign,
+            reactionTime: Math.max(0, result.reactionTime),
+            trackId: result.trackId
         };
-        setBestGhost(newGhost);
-        localStorage.setItem('ndr_best_ghost', JSON.stringify(newGhost));
+        const ghosts = { ...bestGhosts, [result.trackId]: newGhost };
+        setBestGhosts(ghosts);
+        localStorage.setItem('ndr_best_ghosts', JSON.stringify(ghosts));
     }
   };
 
@@ -142,17 +429,57 @@ const App: React.FC = () => {
           <p className="text-gray-400 mb-8 max-w-md text-sm md:text-base">
             Tune your machine. Time your shifts. Dominate the strip.
           </p>
+          <div className="w-64 mb-8">
+            <div className="flex justify-between text-xs font-mono uppercase mb-1">
+              <span className="text-cyan-400 font-bold">Level {playerLevel}</span>
+              <span className="text-gray-500">{player.wins}W - {player.losses}L</span>
+            </div>
+            <div className="h-2 bg-slate-800 rounded-full overflow-hidden border border-slate-700">
+              <div className="h-full bg-cyan-500 shadow-[0_0_10px_#06b6d4]" style={{ width: `${levelProgress * 100}%` }} />
+            </div>
+            <div className="text-[10px] text-gray-500 font-mono mt-1">
+              {playerLevel >= MAX_LEVEL ? `${player.xp} XP · Max Level` : `${player.xp} / ${xpForLevel(playerLevel + 1)} XP`}
+            </div>
+          </div>
           <div className="flex flex-col gap-4">
               <button
-                onClick={() => setGameState(GameState.GARAGE)}
+                onClick={() => { setMode('QUICK_RACE'); setGameState(GameState.GARAGE); }}
                 className="px-12 py-4 bg-cyan-600 text-white font-bold text-xl rounded-sm shadow-[0_0_20px_#0891b2] hover:bg-cyan-500 hover:scale-105 transition-all uppercase tracking-widest clip-path-slant"
                 style={{ clipPath: 'polygon(10% 0, 100% 0, 90% 100%, 0% 100%)' }}
               >
                 Enter Garage
               </button>
+              <button
+                onClick={() => { setMode('CAREER'); setGameState(GameState.CAREER); }}
+                className="px-12 py-3 bg-slate-800 border border-amber-500 text-amber-300 font-bold rounded-sm hover:bg-slate-700 hover:text-white transition-all uppercase tracking-widest"
+                style={{ clipPath: 'polygon(10% 0, 100% 0, 90% 100%, 0% 100%)' }}
+              >
+                Career · ${career.cash.toLocaleString()}
+              </button>
+              <button
+                onClick={() => { setMode('TOURNAMENT'); setGameState(GameState.TOURNAMENT); }}
+                className="px-12 py-3 bg-slate-800 border border-fuchsia-500 text-fuchsia-300 font-bold rounded-sm hover:bg-slate-700 hover:text-white transition-all uppercase tracking-widest"
+                style={{ clipPath: 'polygon(10% 0, 100% 0, 90% 100%, 0% 100%)' }}
+              >
+                {tournament && tournament.champion === null ? 'Resume Tournament' : 'Tournament'}
+              </button>
+              <button
+                onClick={() => { setMode('VERSUS'); setGameState(GameState.VERSUS_SETUP); }}
+                className="px-12 py-3 bg-slate-800 border border-pink-500 text-pink-300 font-bold rounded-sm hover:bg-slate-700 hover:text-white transition-all uppercase tracking-widest"
+                style={{ clipPath: 'polygon(10% 0, 100% 0, 90% 100%, 0% 100%)' }}
+              >
+                Local Versus
+              </button>
+              <button
+                onClick={() => { setMode('ONLINE'); setGameState(GameState.ONLINE_LOBBY); }}
+                className="px-12 py-3 bg-slate-800 border border-emerald-500 text-emerald-300 font-bold rounded-sm hover:bg-slate-700 hover:text-white transition-all uppercase tracking-widest"
+                style={{ clipPath: 'polygon(10% 0, 100% 0, 90% 100%, 0% 100%)' }}
+              >
+                Online Race
+              </button>
               {bestGhost && (
                    <div className="text-xs text-gray-500 font-mono mt-2">
-                       Best Time: <span className="text-green-400">{bestGhost.totalTime.toFixed(3)}s</span>
+                       Best {TRACKS[trackId].distanceLabel}: <span className="text-green-400">{bestGhost.totalTime.toFixed(3)}s</span>
                    </div>
               )}
           </div>
@@ -165,6 +492,97 @@ const App: React.FC = () => {
           updateStats={setCarStats} 
           setGameState={setGameState} 
           hasDesign={!!carDesign}
+          runHistory={runHistory}
+          raceState={mode === 'CAREER' ? GameState.CAREER
+            : mode === 'TOURNAMENT' ? GameState.TOURNAMENT
+            : mode === 'VERSUS' ? GameState.VERSUS_SETUP
+            : mode === 'ONLINE' ? GameState.ONLINE_LOBBY
+            : GameState.RACE_INTRO}
+          retune={mode === 'TOURNAMENT' && tournament?.roundStats
+            ? { base: tournament.roundStats, points: TOURNAMENT_RETUNE_POINTS }
+            : undefined}
+          onSaveBuild={handleSaveBuild}
+        />
+      )}
+
+      {gameState === GameState.VERSUS_SETUP && (
+        <VersusSetup
+          builds={[{ id: 'current', name: 'Garage Car', stats: carStats, design: carDesign }, ...savedBuilds]}
+          trackId={trackId}
+          treeType={treeType}
+          onTrackChange={setTrackId}
+          onTreeChange={setTreeType}
+          onDeleteBuild={(id) => saveBuilds(savedBuilds.filter(b => b.id !== id))}
+          onStart={handleVersusStart}
+          onGarage={() => setGameState(GameState.GARAGE)}
+          onExit={() => { setMode('QUICK_RACE'); setGameState(GameState.MENU); }}
+        />
+      )}
+
+      {gameState === GameState.VERSUS_RACING && versusEntries && (
+        <VersusTrack
+          key={versusRound}
+          entries={versusEntries}
+          treeType={treeType}
+          trackId={trackId}
+          onFinish={handleVersusFinish}
+        />
+      )}
+
+      {gameState === GameState.VERSUS_RESULT && versusResult && mode === 'VERSUS' && versusEntries && (
+        <VersusResult
+          result={versusResult}
+          onRematch={() => handleVersusStart(versusEntries)}
+          onSetup={() => setGameState(GameState.VERSUS_SETUP)}
+        />
+      )}
+
+      {gameState === GameState.VERSUS_RESULT && versusResult && mode === 'ONLINE' && (
+        <VersusResult
+          result={versusResult}
+          onRematch={handleOnlineRematch}
+          onSetup={() => { leaveOnline(); setGameState(GameState.ONLINE_LOBBY); }}
+          setupLabel="Leave Lobby"
+        />
+      )}
+
+      {gameState === GameState.ONLINE_LOBBY && (
+        <OnlineLobby
+          code={onlineLobby.code}
+          status={onlineLobby.status}
+          carReady={carReady}
+          trackId={trackId}
+          treeType={treeType}
+          onTrackChange={setTrackId}
+          onTreeChange={setTreeType}
+          onCreate={handleOnlineCreate}
+          onJoin={handleOnlineJoin}
+          onGarage={() => setGameState(GameState.GARAGE)}
+          onExit={() => {
+            if (!onlineLobby.code) { setMode('QUICK_RACE'); setGameState(GameState.MENU); }
+            leaveOnline();
+          }}
+        />
+      )}
+
+      {gameState === GameState.TOURNAMENT && (
+        <TournamentBracket
+          tournament={tournament}
+          stats={carStats}
+          onCreate={handleCreateTournament}
+          onRace={handleTournamentRace}
+          onGarage={() => setGameState(GameState.GARAGE)}
+          onAbandon={() => saveTournament(null)}
+          onExit={() => { setMode('QUICK_RACE'); setGameState(GameState.MENU); }}
+        />
+      )}
+
+      {gameState === GameState.CAREER && (
+        <CareerHub
+          save={career}
+          onRace={handleCareerRace}
+          onGarage={() => setGameState(GameState.GARAGE)}
+          onExit={() => { setMode('QUICK_RACE'); setGameState(GameState.MENU); }}
         />
       )}
 
@@ -173,6 +591,18 @@ const App: React.FC = () => {
             initialDesign={carDesign}
             onSave={(design) => {
                 setCarDesign(design);
+                setCarStats({ ...carStats, chassis: design.chassis, aero: design.aero });
+                setGameState(GameState.GARAGE);
+            }}
+            onCancel={() => setGameState(GameState.GARAGE)}
+        />
+      )}
+
+      {gameState === GameState.GEARBOX && (
+        <GearboxTuner
+            stats={carStats}
+            onSave={(gearbox) => {
+                setCarStats({ ...carStats, gearbox });
                 setGameState(GameState.GARAGE);
             }}
             onCancel={() => setGameState(GameState.GARAGE)}
@@ -183,45 +613,98 @@ const App: React.FC = () => {
          <div className="relative z-10 flex flex-col items-center justify-center h-full p-4">
             <h2 className="text-3xl font-bold text-white mb-8 italic">SELECT OPPONENT</h2>
             
-            {isLoading ? (
-                <div className="w-16 h-16 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin"></div>
-            ) : (
-                <div className="flex flex-col gap-6 animate-fade-in w-full max-w-sm">
-                    {/* Option 1: AI */}
-                    <button 
-                        onClick={() => handleStartRaceSetup(false)} 
-                        className="group relative px-8 py-6 bg-slate-800 border border-slate-600 hover:border-red-500 hover:bg-slate-700 rounded-lg transition-all flex flex-col items-center gap-2"
-                    >
-                        <span className="text-xl font-black text-red-500 group-hover:drop-shadow-[0_0_10px_rgba(239,68,68,0.5)]">RACE AI RIVAL</span>
-                        <span className="text-xs text-gray-400">Standard Difficulty</span>
-                    </button>
-                    
-                    {/* Option 2: Ghost */}
-                    {bestGhost ? (
-                        <button 
-                            onClick={() => handleStartRaceSetup(true)} 
-                            className="group relative px-8 py-6 bg-slate-800 border border-slate-600 hover:border-cyan-400 hover:bg-slate-700 rounded-lg transition-all flex flex-col items-center gap-2"
+            <div className="flex flex-col gap-6 animate-fade-in w-full max-w-sm">
+                {/* Track Selection */}
+                <div className="grid grid-cols-2 gap-2">
+                    {Object.values(TRACKS).map((track) => (
+                        <button
+                            key={track.id}
+                            onClick={() => setTrackId(track.id)}
+                            className={`p-2 rounded text-left transition-all border ${trackId === track.id ? 'bg-cyan-900/60 border-cyan-400 text-white shadow-[0_0_10px_rgba(34,211,238,0.4)]' : 'bg-slate-800 border-slate-600 text-gray-400'}`}
+                        >
+                            <div className="text-xs font-black uppercase">{track.distanceLabel}</div>
+                            <div className="text-[10px] truncate">{track.name}</div>
+                            <div className="text-[10px] font-mono text-gray-500">
+                                {track.surface} · μ×{SURFACE_GRIP[track.surface].toFixed(2)} · ρ {airDensity(track).toFixed(3)}
+                            </div>
+                            <div className="text-[10px] font-mono text-green-400">
+                                {bestGhosts[track.id] ? `Best ${bestGhosts[track.id]!.totalTime.toFixed(3)}s` : '\u00a0'}
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                {/* Tree Selection */}
+                <div className="flex gap-2">
+                    {(['PRO', 'SPORTSMAN'] as TreeType[]).map((type) => (
+                        <button
+                            key={type}
+                            onClick={() => setTreeType(type)}
+                            className={`flex-1 py-2 rounded font-bold uppercase tracking-wider text-xs transition-all ${treeType === type ? 'bg-amber-500 text-black shadow-[0_0_10px_#f59e0b]' : 'bg-slate-800 text-gray-400 border border-slate-600'}`}
                         >
-                            <span className="text-xl font-black text-cyan-400 group-hover:drop-shadow-[0_0_10px_rgba(34,211,238,0.5)]">CHALLENGE GHOST</span>
-                            <span className="text-xs text-gray-400">Beat your best: {bestGhost.totalTime.toFixed(3)}s</span>
+                            {type === 'PRO' ? 'Pro Tree' : 'Sportsman Tree'}
                         </button>
-                    ) : (
-                         <div className="px-8 py-6 border border-dashed border-gray-700 rounded-lg flex flex-col items-center gap-2 opacity-50">
-                             <span className="text-xl font-black text-gray-500">NO GHOST DATA</span>
-                             <span className="text-xs text-gray-600">Complete a race to unlock</span>
-                         </div>
-                    )}
+                    ))}
                 </div>
-            )}
+
+                {/* Option 1: AI */}
+                <button 
+                    onClick={() => handleStartRaceSetup(false)} 
+                    className="group relative px-8 py-6 bg-slate-800 border border-slate-600 hover:border-red-500 hover:bg-slate-700 rounded-lg transition-all flex flex-col items-center gap-2"
+                >
+                    <span className="text-xl font-black text-red-500 group-hover:drop-shadow-[0_0_10px_rgba(239,68,68,0.5)]">RACE AI RIVAL</span>
+                    <span className="text-xs text-gray-400">
+                        Rival Level {matchmakingLevel(player).toFixed(1).replace(/\.0$/, '')}
+                        {player.streak >= 2 && ` · ${player.streak} Win Streak`}
+                        {player.streak <= -2 && ` · ${-player.streak} Loss Streak`}
+                    </span>
+                </button>
+                
+                {/* Option 2: Ghost */}
+                {bestGhost ? (
+                    <button 
+                        onClick={() => handleStartRaceSetup(true)} 
+                        className="group relative px-8 py-6 bg-slate-800 border border-slate-600 hover:border-cyan-400 hover:bg-slate-700 rounded-lg transition-all flex flex-col items-center gap-2"
+                    >
+                        <span className="text-xl font-black text-cyan-400 group-hover:drop-shadow-[0_0_10px_rgba(34,211,238,0.5)]">CHALLENGE GHOST</span>
+                        <span className="text-xs text-gray-400">Beat your best: {bestGhost.totalTime.toFixed(3)}s</span>
+                    </button>
+                ) : (
+                     <div className="px-8 py-6 border border-dashed border-gray-700 rounded-lg flex flex-col items-center gap-2 opacity-50">
+                         <span className="text-xl font-black text-gray-500">NO GHOST DATA</span>
+                         <span className="text-xs text-gray-600">Complete a race to unlock</span>
+                     </div>
+                )}
+
+                {/* Option 3: Time Trial */}
+                <button
+                    onClick={handleTimeTrial}
+                    className="group relative px-8 py-4 bg-slate-800 border border-slate-600 hover:border-amber-400 hover:bg-slate-700 rounded-lg transition-all flex flex-col items-center gap-1"
+                >
+                    <span className="text-lg font-black text-amber-400 group-hover:drop-shadow-[0_0_10px_rgba(251,191,36,0.5)]">TIME TRIAL</span>
+                    <span className="text-xs text-gray-400">Solo passes with live splits · No XP</span>
+                </button>
+            </div>
          </div>
       )}
 
       {gameState === GameState.RACING && (
         <RaceTrack 
+          key={trialRun}
           stats={carStats} 
           opponent={opponent} 
           design={carDesign}
           ghostReplay={activeGhost}
+          treeType={raceTreeType}
+          trackId={raceTrackId}
+          seed={mode === 'ONLINE' ? onlineMatch?.seed : raceSeed}
+          relay={mode === 'ONLINE' ? relay ?? undefined : undefined}
+          solo={mode === 'TIME_TRIAL'}
+          personalBest={mode === 'TIME_TRIAL' ? bestGhosts[raceTrackId] : undefined}
+          practice={practice}
+          onPracticeToggle={() => setPractice(on => !on)}
+          onRestart={handleTimeTrial}
+          onExit={() => { setMode('QUICK_RACE'); setGameState(GameState.RACE_INTRO); }}
           onRaceFinish={handleRaceFinish} 
         />
       )}
@@ -230,7 +713,13 @@ const App: React.FC = () => {
         <ResultScreen 
           result={lastResult} 
           opponent={opponent}
-          onReset={() => setGameState(GameState.RACING)}
+          xp={lastXp}
+          level={playerLevel}
+          career={mode === 'CAREER' ? lastCareer : null}
+          onReset={() => mode === 'CAREER' ? setGameState(GameState.CAREER)
+            : mode === 'TOURNAMENT' ? setGameState(GameState.TOURNAMENT)
+            : enterRace()}
+          resetLabel={mode === 'CAREER' ? 'Career Hub' : mode === 'TOURNAMENT' ? 'Bracket' : undefined}
           onGarage={() => setGameState(GameState.GARAGE)}
         />
       )}
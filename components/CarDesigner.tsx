@@ -1,5 +1,7 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { CarDesign } from '../types';
+import { AeroProfile, CarDesign } from '../types';
+import { AlphaMask, measureChassis } from '../services/chassis';
+import { measureAero } from '../services/aero';
 
 interface CarDesignerProps {
   initialDesign?: CarDesign;
@@ -16,6 +18,19 @@ const CarDesigner: React.FC<CarDesignerProps> = ({ initialDesign, onSave, onCanc
   const [isEraser, setIsEraser] = useState(false);
   const [wheels, setWheels] = useState<{ x: number; y: number }[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
+  const [aero, setAero] = useState<AeroProfile | undefined>(initialDesign?.aero);
+
+  const readMask = (): AlphaMask | null => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    return canvas && ctx ? ctx.getImageData(0, 0, canvas.width, canvas.height) : null;
+  };
+
+  // Re-measure the silhouette so the aero numbers follow the paint
+  const analyzeAero = (wheelPositions: { x: number; y: number }[]) => {
+    const mask = readMask();
+    if (mask) setAero(measureAero(mask, wheelPositions));
+  };
 
   // Initialize Canvas & Load Existing Design
   useEffect(() => {
@@ -33,6 +48,7 @@ const CarDesigner: React.FC<CarDesignerProps> = ({ initialDesign, onSave, onCanc
             const img = new Image();
             img.onload = () => {
                 ctx.drawImage(img, 0, 0);
+                analyzeAero(initialDesign.wheelPositions);
             };
             img.src = initialDesign.imageData;
             setWheels(initialDesign.wheelPositions);
@@ -41,6 +57,11 @@ const CarDesigner: React.FC<CarDesignerProps> = ({ initialDesign, onSave, onCanc
     }
   }, []); // Run once on mount
 
+  // Axles set the ground line
+  useEffect(() => {
+    analyzeAero(wheels);
+  }, [wheels]);
+
   const getPos = (e: React.MouseEvent | React.TouchEvent) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
@@ -96,6 +117,7 @@ const CarDesigner: React.FC<CarDesignerProps> = ({ initialDesign, onSave, onCanc
       setIsDrawing(false);
       // Reset composite operation to avoid affecting other render logic immediately
       if (ctx) ctx.globalCompositeOperation = 'source-over';
+      analyzeAero(wheels);
     }
   };
 
@@ -119,15 +141,20 @@ const CarDesigner: React.FC<CarDesignerProps> = ({ initialDesign, onSave, onCanc
     if (canvas && ctx) {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       setWheels([]);
+      setAero(undefined);
     }
   };
 
   const handleSave = () => {
     const canvas = canvasRef.current;
-    if (canvas && wheels.length === 2) {
+    const mask = readMask();
+    if (canvas && mask && wheels.length === 2) {
+      const wheelPositions = wheels.sort((a, b) => a.x - b.x);
       onSave({
         imageData: canvas.toDataURL(),
-        wheelPositions: wheels.sort((a, b) => a.x - b.x)
+        wheelPositions,
+        chassis: measureChassis(mask, wheelPositions),
+        aero: measureAero(mask, wheelPositions)
       });
     }
   };
@@ -264,6 +291,22 @@ const CarDesigner: React.FC<CarDesignerProps> = ({ initialDesign, onSave, onCanc
         ))}
       </div>
 
+      {/* Live Aero Readout */}
+      <div className="w-full max-w-2xl grid grid-cols-5 gap-2 mb-6 shrink-0 text-center">
+        {[
+          ['Drag Cd', aero ? aero.cd.toFixed(3) : '--'],
+          ['Downforce Cl', aero ? aero.cl.toFixed(3) : '--'],
+          ['Frontal', aero ? `${aero.frontalArea.toFixed(2)} m²` : '--'],
+          ['Nose', aero ? `${aero.noseSlope}°` : '--'],
+          ['Wing', aero ? (aero.wingArea > 0 ? `${aero.wingArea.toFixed(2)} m²` : 'None') : '--'],
+        ].map(([label, value]) => (
+          <div key={label} className="bg-slate-800/80 p-2 rounded border border-slate-700">
+            <div className="text-[10px] text-gray-400 uppercase">{label}</div>
+            <div className="text-sm font-mono text-cyan-400">{value}</div>
+          </div>
+        ))}
+      </div>
+
       {/* Actions */}
       <div className="flex gap-4 w-full max-w-2xl shrink-0 pb-6">
         <button 
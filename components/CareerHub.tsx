@@ -0,0 +1,90 @@
+import React from 'react';
+import { CareerSave } from '../types';
+import { TRACKS } from '../services/tracks';
+import { CAREER_TIERS, careerComplete, isBoss, isUnlocked, canRace, entryFee } from '../services/career';
+
+interface CareerHubProps {
+  save: CareerSave;
+  onRace: (tier: number, rung: number) => void;
+  onGarage: () => void;
+  onExit: () => void;
+}
+
+const CareerHub: React.FC<CareerHubProps> = ({ save, onRace, onGarage, onExit }) => (
+  <div className="relative z-10 flex flex-col h-full w-full max-w-md mx-auto p-6 animate-fade-in">
+    <h2 className="text-3xl font-black text-center text-transparent bg-clip-text bg-gradient-to-r from-amber-400 to-red-500 mb-2 italic transform -skew-x-12">
+      CAREER
+    </h2>
+    <div className="flex justify-center gap-6 mb-4 font-mono text-sm">
+      <span className="text-green-400">${save.cash.toLocaleString()}</span>
+      <span className="text-amber-400">{save.reputation} REP</span>
+    </div>
+    {careerComplete(save) && (
+      <div className="text-center text-amber-300 font-black uppercase tracking-widest mb-4 animate-pulse">Champion of the Strip</div>
+    )}
+
+    <div className="flex-1 overflow-y-auto pb-4 scrollbar-hide space-y-4">
+      {CAREER_TIERS.map((tier, t) => {
+        const tierOpen = t <= save.tier;
+        return (
+          <div key={tier.name} className={`p-3 rounded-xl border ${tierOpen ? 'border-slate-600 bg-slate-800/80' : 'border-dashed border-gray-700 opacity-50'}`}>
+            <div className="flex justify-between items-baseline mb-2">
+              <span className="text-white font-bold uppercase tracking-widest">{tier.name}</span>
+              <span className="text-[10px] text-gray-400 font-mono uppercase">{TRACKS[tier.trackId].distanceLabel} · ${tier.purse} purse</span>
+            </div>
+            <div className="space-y-1">
+              {tier.rivals.map((rival, r) => {
+                const unlocked = isUnlocked(save, t, r);
+                const beaten = save.beaten.includes(rival.id);
+                const boss = isBoss(t, r);
+                const fee = entryFee(t, r);
+                return (
+                  <button
+                    key={rival.id}
+                    onClick={() => onRace(t, r)}
+                    disabled={!canRace(save, t, r)}
+                    className={`w-full flex items-center gap-2 p-2 rounded border text-left transition-colors disabled:cursor-not-allowed
+                      ${boss ? 'border-red-800' : 'border-slate-700'}
+                      ${unlocked ? 'bg-slate-900/60 hover:bg-slate-700' : 'bg-slate-900/30'}`}
+                  >
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: unlocked ? rival.color : '#374151' }} />
+                    <span className="flex-1">
+                      <span className={`block text-xs font-bold uppercase ${boss ? 'text-red-400' : 'text-white'}`}>
+                        {unlocked ? rival.name : '???'}{boss && ' · Boss'}
+                      </span>
+                      <span className="block text-[10px] text-gray-500">{unlocked ? rival.carName : 'Beat the rung above to unlock'}</span>
+                    </span>
+                    <span className="text-[10px] font-mono uppercase">
+                      {beaten
+                        ? <span className="text-green-400">Beaten</span>
+                        : unlocked && fee > 0
+                          ? <span className={save.cash >= fee ? 'text-amber-400' : 'text-red-400'}>${fee} buy-in</span>
+                          : unlocked && <span className="text-cyan-400">Race</span>}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+
+    <div className="flex gap-4 mt-4">
+      <button
+        onClick={onExit}
+        className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider transition-colors"
+      >
+        Menu
+      </button>
+      <button
+        onClick={onGarage}
+        className="flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider transition-colors"
+      >
+        Tune Car
+      </button>
+    </div>
+  </div>
+);
+
+export default CareerHub;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { CarPhysicsState } from '../services/physicsEngine';
+import { TreeSchedule, getTreeLights } from '../services/christmasTree';
+
+interface ChristmasTreeProps {
+  tree: TreeSchedule;
+  tick: number;
+  cars: [CarPhysicsState, CarPhysicsState]; // Left and right lanes; each gets its own green/red bulbs
+}
+
+const TreeBulb: React.FC<{ on: boolean; color: string }> = ({ on, color }) => (
+  <div
+    className={`w-5 h-5 md:w-6 md:h-6 rounded-full border-2 border-black transition-colors duration-75 ${on ? '' : 'bg-slate-800'}`}
+    style={on ? { backgroundColor: color, boxShadow: `0 0 15px ${color}` } : undefined}
+  />
+);
+
+const ChristmasTree: React.FC<ChristmasTreeProps> = ({ tree, tick, cars }) => {
+  const lights = getTreeLights(tree, tick);
+  return (
+    <div className="absolute top-10 left-1/2 -translate-x-1/2 z-[60] pointer-events-none flex flex-col items-center">
+        <div className="bg-black/80 border-2 border-slate-600 rounded-lg px-3 py-2 flex gap-4 shadow-2xl">
+            {cars.map((car, lane) => (
+                <div key={lane} className="flex flex-col items-center gap-1.5">
+                    <TreeBulb on={lights.preStage} color="#fef9c3" />
+                    <TreeBulb on={lights.stage} color="#fef9c3" />
+                    <div className="h-1" />
+                    {lights.ambers.map((on, i) => <TreeBulb key={i} on={on} color="#f59e0b" />)}
+                    <TreeBulb on={lights.green && !car.redLight} color="#22c55e" />
+                    <TreeBulb on={car.redLight} color="#ef4444" />
+                </div>
+            ))}
+        </div>
+        <span className="mt-1 text-[10px] text-slate-400 font-bold tracking-widest">{tree.type} TREE</span>
+    </div>
+  );
+};
+
+export default ChristmasTree;
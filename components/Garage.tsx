@@ -1,14 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { CarStats, GameState } from '../types';
-import { TOTAL_STAT_POINTS, MIN_STAT, MAX_STAT } from '../constants';
+import { CarStats, EngineType, GameState, StatKey, RunRecord } from '../types';
+import {
+  TOTAL_STAT_POINTS, MIN_STAT, MAX_STAT, NITROUS_BOTTLE_SIZES, NITROUS_SHOT_SIZES, NITROUS_LB_PER_HP_SECOND
+} from '../constants';
+import { clampGearbox } from '../services/gearbox';
+import { ENGINE_PROFILES, resolveEngine } from '../services/engineProfiles';
+import { CrewChiefReport, crewChiefReport, recentRuns, buildKey, applyMove } from '../services/crewChief';
+import { phraseCrewChiefAdvice } from '../services/geminiService';
+import { retunePointsUsed, withRoundParts } from '../services/tournament';
 
 interface GarageProps {
   stats: CarStats;
   updateStats: (newStats: CarStats) => void;
   setGameState: (state: GameState) => void;
   hasDesign?: boolean;
+  runHistory: RunRecord[];
+  raceState?: GameState; // Where "Go to Race" leads (the career hub in career mode)
+  retune?: { base: CarStats; points: number }; // Tournament: stat points may only move this far from `base`, and parts are locked
+  onSaveBuild?: () => void; // Keeps the current stats and paint for Local Versus
 }
 
+// Settle time before the crew chief re-runs its sims for a new spread
+const CREW_CHIEF_DELAY_MS = 300;
+
 const SliderControl: React.FC<{
   label: string;
   value: number;
@@ -39,11 +53,58 @@ const SliderControl: React.FC<{
   </div>
 );
 
-const Garage: React.FC<GarageProps> = ({ stats, updateStats, setGameState, hasDesign }) => {
+const OptionPicker: React.FC<{
+  label: string;
+  options: number[];
+  value: number;
+  format: (val: number) => string;
+  onChange: (val: number) => void;
+  disabled?: boolean;
+}> = ({ label, options, value, format, onChange, disabled }) => (
+  <div className={`mb-3 ${disabled ? 'opacity-50' : ''}`}>
+    <label className="block text-[10px] text-gray-400 uppercase tracking-widest mb-1">{label}</label>
+    <div className="flex gap-1 bg-slate-900/60 p-1 rounded border border-slate-700">
+      {options.map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          disabled={disabled}
+          className={`flex-1 py-2 rounded text-xs font-bold font-mono transition-colors ${value === option ? 'bg-fuchsia-600 text-white shadow-[0_0_10px_rgba(192,38,211,0.5)]' : 'text-gray-400 hover:text-white'}`}
+        >
+          {format(option)}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const Garage: React.FC<GarageProps> = ({ stats, updateStats, setGameState, hasDesign, runHistory, raceState = GameState.RACE_INTRO, retune, onSaveBuild }) => {
   const currentTotal = stats.acceleration + stats.topSpeed + stats.grip;
   const pointsRemaining = TOTAL_STAT_POINTS - currentTotal;
+  const build = buildKey(stats);
+  // The report changes with the gearbox, nitrous and aero too, not just the build key
+  const statsKey = JSON.stringify(stats);
+  const [report, setReport] = useState<CrewChiefReport | null>(null);
+  const [pitTalk, setPitTalk] = useState<string | null>(null);
+
+  // The crew chief re-simulates the build, so wait for the sliders to settle and let the Garage paint first
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setPitTalk(null);
+    const timer = setTimeout(() => {
+      const next = crewChiefReport(stats, recentRuns(runHistory, stats));
+      if (cancelled) return;
+      setReport(next);
+      phraseCrewChiefAdvice(next).then(line => { if (!cancelled) setPitTalk(line); });
+    }, CREW_CHIEF_DELAY_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [statsKey, runHistory]);
 
-  const handleStatChange = (key: keyof CarStats, newValue: number) => {
+  // In a tournament, a spread that moves more points than the retune allows is refused
+  const overRetune = (next: CarStats) => !!retune && retunePointsUsed(retune.base, next) > retune.points;
+
+  const handleStatChange = (key: StatKey, newValue: number) => {
     const oldValue = stats[key];
     const diff = newValue - oldValue;
 
@@ -55,9 +116,20 @@ const Garage: React.FC<GarageProps> = ({ stats, updateStats, setGameState, hasDe
     // Enforce limits
     if (newValue < MIN_STAT || newValue > MAX_STAT) return;
 
-    updateStats({ ...stats, [key]: newValue });
+    const next = { ...stats, [key]: newValue };
+    if (overRetune(next)) return;
+    // A custom box can't keep a final drive taller than the new Top Speed allows
+    if (key === 'topSpeed' && next.gearbox) next.gearbox = clampGearbox(next.gearbox, newValue);
+    updateStats(retune ? withRoundParts(retune.base, next) : next);
   };
 
+  const engine = resolveEngine(stats);
+  const engineDamage = stats.engineDamage ?? 0;
+  const engineBlown = engineDamage >= 1;
+
+  const nitrous = stats.nitrous ?? { bottleSize: 0, shotSize: NITROUS_SHOT_SIZES[1] };
+  const shotDuration = nitrous.bottleSize / (nitrous.shotSize * NITROUS_LB_PER_HP_SECOND);
+
   return (
     <div className="relative z-20 flex flex-col h-full w-full max-w-md mx-auto p-6 animate-fade-in">
       <h2 className="text-3xl font-black text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-500 mb-2 italic transform -skew-x-12">
@@ -69,16 +141,115 @@ const Garage: React.FC<GarageProps> = ({ stats, updateStats, setGameState, hasDe
         <div className={`text-4xl font-mono font-bold ${pointsRemaining === 0 ? 'text-gray-600' : 'text-green-400 animate-pulse'}`}>
             {pointsRemaining}
         </div>
+        {retune && (
+          <div className="text-xs text-amber-400 font-mono uppercase mt-1">
+            Tournament retune: {retunePointsUsed(retune.base, stats)}/{retune.points} pts moved · parts locked
+          </div>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto pb-4 scrollbar-hide">
         <button
           onClick={() => setGameState(GameState.DESIGN)}
-          className="w-full mb-6 py-3 bg-purple-900/50 border border-purple-500 text-purple-200 hover:bg-purple-800 hover:text-white rounded font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-2 shadow-[0_0_15px_rgba(168,85,247,0.3)]"
+          disabled={!!retune}
+          className="w-full mb-6 py-3 bg-purple-900/50 border border-purple-500 text-purple-200 hover:bg-purple-800 hover:text-white rounded font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-2 shadow-[0_0_15px_rgba(168,85,247,0.3)] disabled:opacity-40 disabled:cursor-not-allowed"
         >
            <span className="text-xl">🎨</span> {hasDesign ? "Edit Custom Paint" : "Paint Custom Car"}
         </button>
 
+        <button
+          onClick={() => setGameState(GameState.GEARBOX)}
+          disabled={!!retune}
+          className="w-full mb-6 py-3 bg-cyan-900/40 border border-cyan-600 text-cyan-200 hover:bg-cyan-800 hover:text-white rounded font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+           <span className="text-xl">⚙️</span> {engine.singleGear
+             ? "Tune Final Drive"
+             : stats.gearbox ? `Custom ${stats.gearbox.ratios.length}-Speed Box` : "Tune Gearbox"}
+        </button>
+
+        {/* Engine Swap (free choice, each profile drives differently) */}
+        <div className="mb-6 p-4 rounded-xl border border-slate-600 bg-slate-800/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center mb-3">
+            <label className="text-white font-bold text-lg uppercase tracking-widest">Engine</label>
+            <span className="text-cyan-400 font-mono text-sm">
+              {engine.singleGear ? 'Single gear' : `${(engine.redline / 1000).toFixed(1)}k redline`}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            {(Object.keys(ENGINE_PROFILES) as EngineType[]).map((id) => (
+              <button
+                key={id}
+                onClick={() => updateStats({ ...stats, engine: id === 'STOCK' ? undefined : id })}
+                disabled={!!retune && (retune.base.engine ?? 'STOCK') !== id}
+                className={`p-2 rounded border text-left transition-colors disabled:opacity-40 ${engine.id === id ? 'bg-cyan-900/60 border-cyan-400 text-white' : 'bg-slate-900/60 border-slate-700 text-gray-400 hover:text-white'}`}
+              >
+                <div className="text-xs font-bold uppercase">{ENGINE_PROFILES[id].name}</div>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">{engine.description}</p>
+
+          {/* Engine Health (wear carries over between races) */}
+          <div className="mt-3 pt-3 border-t border-slate-700">
+            <div className="flex justify-between items-center text-xs uppercase mb-1">
+              <span className="text-gray-400">Health</span>
+              <span className={`font-mono ${engineDamage > 0.6 ? 'text-red-400' : 'text-green-400'}`}>
+                {engineBlown ? 'BLOWN' : `${Math.round((1 - engineDamage) * 100)}%`}
+              </span>
+            </div>
+            <div className="h-2 bg-slate-900 rounded-full overflow-hidden mb-2">
+              <div className={`h-full ${engineDamage > 0.6 ? 'bg-red-500' : 'bg-green-500'}`} style={{ width: `${(1 - engineDamage) * 100}%` }} />
+            </div>
+            <button
+              onClick={() => updateStats({ ...stats, engineDamage: 0 })}
+              disabled={engineDamage === 0}
+              className="w-full py-2 rounded text-xs font-bold uppercase tracking-widest border border-orange-600 text-orange-300 hover:bg-orange-900/50 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+            >
+              {engineDamage === 0 ? 'Engine Fresh' : 'Rebuild Engine'}
+            </button>
+            <p className="text-xs text-gray-400 mt-2">Bouncing off the limiter, lugging early shifts and money-shifts wear the engine and cost power.</p>
+          </div>
+        </div>
+
+        {/* Crew Chief (advice from the last few runs in this build) */}
+        <div className="mb-6 p-4 rounded-xl border border-amber-700 bg-slate-800/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-white font-bold text-lg uppercase tracking-widest">Crew Chief</label>
+            <span className="text-amber-400 font-mono text-xs">{report?.runs ? `Last ${report.runs} runs` : build}</span>
+          </div>
+          {!report ? (
+            <p className="text-xs text-gray-500 uppercase tracking-widest animate-pulse">Going over your time slips...</p>
+          ) : report.runs === 0 ? (
+            <p className="text-xs text-gray-400">Race this build against a rival and I'll tell you what it's doing.</p>
+          ) : report.advice.length === 0 ? (
+            <p className="text-xs text-gray-400">Nothing to change. The car's right; go make the runs.</p>
+          ) : (
+            <>
+              {pitTalk && <p className="text-sm text-amber-300 italic mb-2">"{pitTalk}"</p>}
+              <ul className="space-y-2">
+                {report.advice.map(({ text, move }, i) => {
+                  const moved = move && (retune ? withRoundParts(retune.base, applyMove(stats, move)) : applyMove(stats, move));
+                  return (
+                    <li key={i} className="text-xs text-gray-300 flex gap-2 items-start">
+                      <span className="text-amber-500">▸</span>
+                      <span className="flex-1">{text}</span>
+                      {moved && (
+                        <button
+                          onClick={() => { if (!overRetune(moved)) updateStats(moved); }}
+                          disabled={overRetune(moved)}
+                          className="px-2 py-1 rounded border border-amber-600 text-amber-300 hover:bg-amber-900/50 font-bold uppercase text-[10px] tracking-widest disabled:opacity-30"
+                        >
+                          Apply
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
         <SliderControl
           label="Acceleration / Torque"
           value={stats.acceleration}
@@ -95,7 +266,9 @@ const Garage: React.FC<GarageProps> = ({ stats, updateStats, setGameState, hasDe
           min={MIN_STAT}
           max={MAX_STAT}
           onChange={(v) => handleStatChange('topSpeed', v)}
-          description="High: Longer gears for higher max speed. Low: Shorter gears for punchy accel."
+          description={stats.gearbox
+            ? "Sets the tallest final drive your custom gearbox may run."
+            : "High: Longer gears for higher max speed. Low: Shorter gears for punchy accel."}
           disabled={pointsRemaining === 0 && stats.topSpeed < MAX_STAT}
         />
 
@@ -105,21 +278,60 @@ const Garage: React.FC<GarageProps> = ({ stats, updateStats, setGameState, hasDe
           min={MIN_STAT}
           max={MAX_STAT}
           onChange={(v) => handleStatChange('grip', v)}
-          description="Reduces wheelspin. Essential for high acceleration builds."
+          description={stats.aero
+            ? "Tire compound. Downforce comes from the wing on your custom paint."
+            : "Reduces wheelspin. Essential for high acceleration builds and hard launches."}
           disabled={pointsRemaining === 0 && stats.grip < MAX_STAT}
         />
+
+        {/* Nitrous Kit (free choice, trade-offs instead of points) */}
+        <div className="mb-6 p-4 rounded-xl border border-fuchsia-800 bg-slate-800/80 backdrop-blur-sm">
+          <div className="flex justify-between items-center mb-3">
+            <label className="text-white font-bold text-lg uppercase tracking-widest">Nitrous</label>
+            <span className="text-fuchsia-400 font-mono text-sm">
+              {nitrous.bottleSize > 0 ? `${shotDuration.toFixed(1)}s of spray` : 'Not fitted'}
+            </span>
+          </div>
+          <OptionPicker
+            label="Bottle Size"
+            options={NITROUS_BOTTLE_SIZES}
+            value={nitrous.bottleSize}
+            format={(v) => (v === 0 ? 'NONE' : `${v} LB`)}
+            onChange={(v) => updateStats({ ...stats, nitrous: { ...nitrous, bottleSize: v } })}
+            disabled={!!retune}
+          />
+          <OptionPicker
+            label="Shot Size"
+            options={NITROUS_SHOT_SIZES}
+            value={nitrous.shotSize}
+            format={(v) => `${v} HP`}
+            onChange={(v) => updateStats({ ...stats, nitrous: { ...nitrous, shotSize: v } })}
+            disabled={!!retune || nitrous.bottleSize === 0}
+          />
+          <p className="text-xs text-gray-400">Bigger bottles add weight. Bigger shots hit harder but drain faster and will spin the tires in low gears.</p>
+        </div>
       </div>
 
+      {onSaveBuild && (
+        <button
+          onClick={onSaveBuild}
+          disabled={pointsRemaining > 0}
+          className="mt-4 w-full py-2 bg-slate-800 border border-slate-600 text-gray-300 hover:text-white hover:border-slate-400 rounded font-bold uppercase tracking-widest text-xs transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Build · {build}
+        </button>
+      )}
+
       <button
-        onClick={() => setGameState(GameState.RACE_INTRO)}
-        disabled={pointsRemaining > 0}
+        onClick={() => setGameState(raceState)}
+        disabled={pointsRemaining > 0 || engineBlown}
         className={`mt-4 w-full py-4 text-white font-black text-xl uppercase tracking-widest rounded-sm transition-all border-2
-            ${pointsRemaining > 0 
+            ${pointsRemaining > 0 || engineBlown
                 ? 'bg-gray-700 border-gray-600 opacity-50 cursor-not-allowed' 
                 : 'bg-gradient-to-r from-cyan-600 to-blue-700 border-cyan-400 hover:scale-105 shadow-[0_0_20px_rgba(8,145,178,0.5)]'
             }`}
       >
-        {pointsRemaining > 0 ? 'Spend All Points' : 'Go to Race'}
+        {pointsRemaining > 0 ? 'Spend All Points' : engineBlown ? 'Rebuild Engine First' : 'Go to Race'}
       </button>
     </div>
   );
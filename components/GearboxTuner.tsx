@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { CarStats, Gearbox } from '../types';
+import {
+  MIN_GEARS, MAX_GEARS, MIN_GEAR_RATIO, MAX_GEAR_RATIO, MAX_FINAL_DRIVE
+} from '../constants';
+import {
+  resolveGearbox, clampGearbox, spreadRatios, finalDriveForStat, speedAtRpm, stockGearbox
+} from '../services/gearbox';
+import { resolveEngine } from '../services/engineProfiles';
+import { simulateRace, perfectWindowShift } from '../services/raceSimulator';
+
+interface GearboxTunerProps {
+  stats: CarStats;
+  onSave: (gearbox: Gearbox | undefined) => void; // undefined = back to the stock box
+  onCancel: () => void;
+}
+
+const GEAR_COLORS = ['#22d3ee', '#a78bfa', '#f472b6', '#fb923c', '#facc15', '#4ade80', '#60a5fa', '#f87171'];
+
+// Chart frame (SVG units)
+const CHART_W = 300;
+const CHART_H = 160;
+
+const GearboxTuner: React.FC<GearboxTunerProps> = ({ stats, onSave, onCancel }) => {
+  const engine = resolveEngine(stats);
+  const { redline, idleRpm } = engine;
+  const [draft, setDraft] = useState<Gearbox>(() => resolveGearbox(stats));
+  const minFinalDrive = finalDriveForStat(stats.topSpeed);
+
+  // Single-gear engines only tune the final drive
+  const update = (next: Gearbox) => setDraft(engine.singleGear
+    ? { ratios: next.ratios, finalDrive: clampGearbox(next, stats.topSpeed).finalDrive }
+    : clampGearbox(next, stats.topSpeed));
+
+  // Keep the geared box underneath so swapping engines back doesn't lose it
+  const save = () => onSave(engine.singleGear
+    ? { ...(stats.gearbox ?? stockGearbox(stats.topSpeed)), finalDrive: draft.finalDrive }
+    : draft);
+
+  const setGearCount = (count: number) => {
+    const first = draft.ratios[0];
+    const last = draft.ratios[draft.ratios.length - 1];
+    update({ ...draft, ratios: spreadRatios(count, first, last) });
+  };
+
+  const setRatio = (index: number, value: number) => {
+    const ratios = [...draft.ratios];
+    ratios[index] = value;
+    update({ ...draft, ratios });
+  };
+
+  // Headless pass with the draft box, shifting in the PERFECT window
+  const preview = useMemo(() => simulateRace({
+    stats: { ...stats, gearbox: draft },
+    strategy: perfectWindowShift(engine),
+    opponentStats: stats,
+    seed: 1,
+  }), [stats, draft, engine]);
+
+  // Gear/speed chart: RPM against road speed for every gear
+  const topGear = draft.ratios[draft.ratios.length - 1];
+  const maxKmh = speedAtRpm(redline, topGear, draft.finalDrive) * 3.6 * 1.05;
+  const x = (kmh: number) => (kmh / maxKmh) * CHART_W;
+  const y = (rpm: number) => CHART_H - (rpm / redline) * CHART_H;
+  const gearKmh = (rpm: number, i: number) => speedAtRpm(rpm, draft.ratios[i], draft.finalDrive) * 3.6;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-900 flex flex-col items-center overflow-y-auto p-4 animate-fade-in">
+      <h2 className="text-3xl md:text-5xl font-black text-white italic mb-4 text-center tracking-tighter shrink-0">
+        <span className="text-cyan-400">GEARBOX</span> TUNING
+      </h2>
+
+      {/* Live Chart */}
+      <div className="w-full max-w-2xl bg-slate-800/80 p-4 rounded-xl border border-slate-700 mb-4 shrink-0">
+        <svg viewBox={`-30 -10 ${CHART_W + 40} ${CHART_H + 30}`} className="w-full h-auto">
+          {/* PERFECT shift window */}
+          {!engine.singleGear && (
+            <rect x={0} y={y(engine.shiftMax)} width={CHART_W} height={y(engine.shiftMin) - y(engine.shiftMax)} fill="#22c55e" opacity={0.12} />
+          )}
+          <line x1={0} y1={y(redline)} x2={CHART_W} y2={y(redline)} stroke="#ef4444" strokeWidth={1} strokeDasharray="4 3" />
+          <line x1={0} y1={CHART_H} x2={CHART_W} y2={CHART_H} stroke="#475569" />
+          <line x1={0} y1={0} x2={0} y2={CHART_H} stroke="#475569" />
+
+          {draft.ratios.map((_, i) => (
+            <g key={i}>
+              <line
+                x1={x(gearKmh(idleRpm, i))} y1={y(idleRpm)}
+                x2={x(gearKmh(redline, i))} y2={y(redline)}
+                stroke={GEAR_COLORS[i]} strokeWidth={2}
+              />
+              {/* RPM drop when shifting at the limiter */}
+              {i < draft.ratios.length - 1 && (
+                <line
+                  x1={x(gearKmh(redline, i))} y1={y(redline)}
+                  x2={x(gearKmh(redline, i))} y2={y(redline * draft.ratios[i + 1] / draft.ratios[i])}
+                  stroke={GEAR_COLORS[i]} strokeWidth={1} strokeDasharray="2 2" opacity={0.6}
+                />
+              )}
+              <text x={x(gearKmh(redline, i)) - 4} y={y(redline) - 3} fill={GEAR_COLORS[i]} fontSize={8} fontWeight="bold">{i + 1}</text>
+            </g>
+          ))}
+
+          <text x={-4} y={y(redline) + 3} fill="#94a3b8" fontSize={7} textAnchor="end">{redline / 1000}k</text>
+          <text x={-4} y={CHART_H} fill="#94a3b8" fontSize={7} textAnchor="end">0</text>
+          <text x={CHART_W} y={CHART_H + 12} fill="#94a3b8" fontSize={7} textAnchor="end">{Math.round(maxKmh)} km/h</text>
+        </svg>
+
+        <div className="grid grid-cols-3 gap-2 mt-2 text-center">
+          <div>
+            <div className="text-[10px] text-gray-400 uppercase">Sim ET</div>
+            <div className="text-lg font-mono text-white">{Number.isFinite(preview.playerTime) ? `${preview.playerTime.toFixed(3)}s` : 'DNF'}</div>
+          </div>
+          <div>
+            <div className="text-[10px] text-gray-400 uppercase">Trap</div>
+            <div className="text-lg font-mono text-cyan-400">{preview.trapSpeed.toFixed(0)} km/h</div>
+          </div>
+          <div>
+            <div className="text-[10px] text-gray-400 uppercase">Top Gear @ Redline</div>
+            <div className="text-lg font-mono text-white">{gearKmh(redline, draft.ratios.length - 1).toFixed(0)} km/h</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="w-full max-w-2xl bg-slate-800/80 p-4 rounded-xl border border-slate-700 mb-4 shrink-0">
+        {engine.singleGear ? (
+          <p className="text-xs text-gray-400 mb-2">{engine.name} runs a single fixed {draft.ratios[0].toFixed(2)} reduction gear. Only the final drive can be tuned.</p>
+        ) : (<>
+        <label className="block text-[10px] text-gray-400 uppercase tracking-widest mb-1">Gears</label>
+        <div className="flex gap-1 bg-slate-900/60 p-1 rounded border border-slate-700 mb-4">
+          {Array.from({ length: MAX_GEARS - MIN_GEARS + 1 }, (_, i) => MIN_GEARS + i).map((count) => (
+            <button
+              key={count}
+              onClick={() => setGearCount(count)}
+              className={`flex-1 py-2 rounded text-xs font-bold font-mono transition-colors ${draft.ratios.length === count ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {count}-SPD
+            </button>
+          ))}
+        </div>
+
+        {draft.ratios.map((ratio, i) => (
+          <div key={i} className="flex items-center gap-3 mb-2">
+            <span className="w-10 text-xs font-black" style={{ color: GEAR_COLORS[i] }}>{i + 1}{['st', 'nd', 'rd'][i] ?? 'th'}</span>
+            <input
+              type="range"
+              min={MIN_GEAR_RATIO}
+              max={MAX_GEAR_RATIO}
+              step="0.01"
+              value={ratio}
+              onChange={(e) => setRatio(i, parseFloat(e.target.value))}
+              className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:rounded-full"
+            />
+            <span className="w-12 text-right text-xs font-mono text-white">{ratio.toFixed(2)}</span>
+          </div>
+        ))}
+        </>)}
+
+        <div className={`flex items-center gap-3 ${engine.singleGear ? '' : 'mt-4 pt-4 border-t border-slate-700'}`}>
+          <span className="w-10 text-xs font-black text-white">FD</span>
+          <input
+            type="range"
+            min={minFinalDrive}
+            max={MAX_FINAL_DRIVE}
+            step="0.01"
+            value={draft.finalDrive}
+            onChange={(e) => update({ ...draft, finalDrive: parseFloat(e.target.value) })}
+            className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-cyan-400 [&::-webkit-slider-thumb]:rounded-full"
+          />
+          <span className="w-12 text-right text-xs font-mono text-white">{draft.finalDrive.toFixed(2)}</span>
+        </div>
+        <p className="text-xs text-gray-400 mt-2">Tallest final drive allowed is {minFinalDrive.toFixed(2)}. Raise Top Speed to unlock taller gearing.</p>
+      </div>
+
+      {/* Actions */}
+      <div className="flex gap-4 w-full max-w-2xl shrink-0 pb-6">
+        <button
+          onClick={onCancel}
+          className="flex-1 py-4 bg-slate-700 text-white font-bold rounded uppercase tracking-wider hover:bg-slate-600 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(undefined)}
+          className="flex-1 py-4 bg-slate-800 border border-slate-600 text-gray-300 font-bold rounded uppercase tracking-wider hover:bg-slate-700 transition-colors"
+        >
+          Stock Box
+        </button>
+        <button
+          onClick={save}
+          className="flex-1 py-4 bg-gradient-to-r from-cyan-600 to-blue-700 text-white font-bold rounded uppercase tracking-wider shadow-[0_0_20px_rgba(8,145,178,0.5)] hover:scale-105 transition-all"
+        >
+          Save Box
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GearboxTuner;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { TrackId, TreeType } from '../types';
+import { TRACKS } from '../services/tracks';
+import { LOBBY_CODE_LENGTH } from '../services/netProtocol';
+
+interface OnlineLobbyProps {
+  code: string | null; // Set once the relay has seated us
+  status: string | null;
+  carReady: boolean;
+  trackId: TrackId;
+  treeType: TreeType;
+  onTrackChange: (trackId: TrackId) => void;
+  onTreeChange: (treeType: TreeType) => void;
+  onCreate: (name: string) => void;
+  onJoin: (name: string, code: string) => void;
+  onGarage: () => void;
+  onExit: () => void;
+}
+
+const OnlineLobby: React.FC<OnlineLobbyProps> = ({
+  code, status, carReady, trackId, treeType, onTrackChange, onTreeChange, onCreate, onJoin, onGarage, onExit
+}) => {
+  const [name, setName] = useState('Racer');
+  const [joinCode, setJoinCode] = useState('');
+  const canEnter = carReady && name.trim().length > 0;
+
+  return (
+    <div className="relative z-10 flex flex-col items-center justify-center h-full p-4 animate-fade-in">
+      <h2 className="text-3xl font-bold text-white mb-6 italic">ONLINE RACE</h2>
+
+      <div className="flex flex-col gap-4 w-full max-w-sm">
+        {code ? (
+          <div className="text-center">
+            <div className="text-[10px] text-gray-400 uppercase tracking-widest mb-1">Lobby Code</div>
+            <div className="text-5xl font-black font-mono tracking-[0.3em] text-emerald-400">{code}</div>
+          </div>
+        ) : (
+          <>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value.slice(0, 16))}
+              placeholder="Your name"
+              className="px-3 py-2 bg-slate-800 border border-slate-600 rounded text-white font-bold"
+            />
+
+            <div className="grid grid-cols-4 gap-2">
+              {Object.values(TRACKS).map(track => (
+                <button
+                  key={track.id}
+                  onClick={() => onTrackChange(track.id)}
+                  className={`p-2 rounded text-xs font-black uppercase border ${trackId === track.id ? 'bg-cyan-900/60 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-gray-400'}`}
+                >
+                  {track.distanceLabel}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {(['PRO', 'SPORTSMAN'] as TreeType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => onTreeChange(type)}
+                  className={`flex-1 py-2 rounded font-bold uppercase tracking-wider text-xs ${treeType === type ? 'bg-amber-500 text-black' : 'bg-slate-800 text-gray-400 border border-slate-600'}`}
+                >
+                  {type === 'PRO' ? 'Pro Tree' : 'Sportsman Tree'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => onCreate(name.trim())}
+              disabled={!canEnter}
+              className="py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded uppercase tracking-wider disabled:bg-gray-800 disabled:text-gray-500"
+            >
+              Create Lobby
+            </button>
+
+            <div className="flex gap-2">
+              <input
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase().slice(0, LOBBY_CODE_LENGTH))}
+                placeholder="CODE"
+                className="w-28 px-3 py-2 bg-slate-800 border border-slate-600 rounded text-white font-mono font-bold tracking-widest text-center"
+              />
+              <button
+                onClick={() => onJoin(name.trim(), joinCode)}
+                disabled={!canEnter || joinCode.length !== LOBBY_CODE_LENGTH}
+                className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider disabled:bg-gray-800 disabled:text-gray-500"
+              >
+                Join
+              </button>
+            </div>
+            {!carReady && (
+              <p className="text-xs text-amber-400 text-center">Spend all your points (and fix the engine) in the Garage first.</p>
+            )}
+          </>
+        )}
+
+        {status && <p className="text-sm text-gray-300 text-center animate-pulse">{status}</p>}
+
+        <div className="flex gap-2 mt-2">
+          <button onClick={onExit} className="flex-1 py-2 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider text-xs">
+            {code ? 'Leave' : 'Menu'}
+          </button>
+          {!code && (
+            <button onClick={onGarage} className="flex-1 py-2 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider text-xs">
+              Garage
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OnlineLobby;
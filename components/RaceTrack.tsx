@@ -1,236 +1,173 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { CarStats, GameState, RaceResult, Opponent, CarDesign, GhostReplay, GhostDataPoint } from '../types';
-import { 
-  TRACK_LENGTH_METERS, DT, GEAR_RATIOS, REDLINE, 
-  IDLE_RPM, BASE_HORSEPOWER, BASE_WEIGHT, BASE_GRIP 
-} from '../constants';
+import { CarStats, RaceResult, Opponent, CarDesign, GhostReplay, GhostDataPoint, TreeType, TrackId, ShiftRecord, RaceInput, RaceInputKind } from '../types';
+import { DT, TIRE_WINDOW, NET_SEND_INTERVAL } from '../constants';
+import { shiftUp as shiftCarUp, elapsedSinceLaunch, activateNitrous, isCarDone } from '../services/physicsEngine';
+import {
+  RaceSession, createRaceSession, launchLane, leaveBurnoutBox, stepRaceSession, isRaceOver, didPlayerWin,
+  createFrameClock, runFrameTicks, isTreeShowing, SHIFT_FEEDBACK
+} from '../services/raceSession';
+import { optimalTireTemp, tireGripFactor } from '../services/tires';
+import { gearCount } from '../services/gearbox';
+import { resolveEngine } from '../services/engineProfiles';
+import { randomSeed } from '../services/rng';
+import { RelayClient } from '../services/relayClient';
+import { carSnapshot, pushSnapshot } from '../services/remoteCar';
+import { splitMarkers, splitTimes, idealShiftRpms } from '../services/timeTrial';
 import Tachometer from './Tachometer';
+import ChristmasTree from './ChristmasTree';
 
 interface RaceTrackProps {
   stats: CarStats;
   opponent: Opponent;
   design?: CarDesign;
   ghostReplay?: GhostReplay;
+  treeType: TreeType;
+  trackId: TrackId;
+  seed?: number; // Seeds the tree and AI; same seed + same input ticks = same race (random when missing)
+  relay?: RelayClient; // Online race: the opponent's lane follows the relay, and the tree waits for both players
+  solo?: boolean; // Time trial: nobody in the other lane, live splits instead
+  personalBest?: GhostReplay; // Splits are compared against this run
+  practice?: boolean; // Shows the ideal shift point for the current gear
+  onPracticeToggle?: () => void;
+  onRestart?: () => void;
+  onExit?: () => void;
   onRaceFinish: (result: RaceResult) => void;
 }
 
-// Physics State per Car
-interface CarPhysicsState {
-  distance: number;
-  speed: number;
-  rpm: number;
-  gear: number;
-  finished: boolean;
-  startTime: number;
-  finishTime: number;
-  wheelSpin: boolean;
-}
-
-const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostReplay, onRaceFinish }) => {
-  // Game State Refs
-  const playerState = useRef<CarPhysicsState>({
-    distance: 0, speed: 0, rpm: IDLE_RPM, gear: 1, finished: false, startTime: 0, finishTime: 0, wheelSpin: false
-  });
-
-  const enemyState = useRef<CarPhysicsState>({
-    distance: 0, speed: 0, rpm: IDLE_RPM, gear: 1, finished: false, startTime: 0, finishTime: 0, wheelSpin: false
-  });
-
-  const gameState = useRef<'COUNTDOWN' | 'RACING' | 'FINISHED'>('COUNTDOWN');
+const formatDelta = (delta: number) => `${delta >= 0 ? '+' : ''}${delta.toFixed(3)}`;
+
+// Practice hint counts as "on it" within this much of the ideal shift point
+const IDEAL_SHIFT_TOLERANCE = 100;
+
+const RaceTrack: React.FC<RaceTrackProps> = ({
+  stats, opponent, design, ghostReplay, treeType, trackId, seed, relay,
+  solo = false, personalBest, practice = false, onPracticeToggle, onRestart, onExit, onRaceFinish
+}) => {
+  // Simulation (tree, both cars, AI) — advanced on a fixed timestep, decoupled from frame pacing
+  const [session] = useState<RaceSession>(() => createRaceSession({
+    playerStats: stats,
+    opponentStats: opponent.stats,
+    opponentDifficulty: opponent.difficulty || 1.0,
+    opponentDriver: opponent.driver,
+    ghost: ghostReplay,
+    opponentRemote: !!relay,
+    solo,
+    treeType,
+    trackId,
+    burnout: true,
+    seed: seed ?? randomSeed(),
+  }));
+  const player = session.player.car;
+  const enemy = session.enemy.car;
+  const trackLength = session.track.lengthMeters;
+
+  const gameState = useRef<'BURNOUT' | 'STAGING' | 'RACING' | 'FINISHED'>('BURNOUT');
   const requestRef = useRef<number>();
   const perfectShifts = useRef(0);
+  const shiftLog = useRef<ShiftRecord[]>([]);
   const maxSpeed = useRef(0);
+
+  const finishTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  // The loop and key listeners are set up once, so they reach the parent's callbacks through here
+  const handlersRef = useRef({ onRaceFinish, onRestart, onPracticeToggle });
+  handlersRef.current = { onRaceFinish, onRestart, onPracticeToggle };
+
+  const clockRef = useRef(createFrameClock());
   
   // Recording
   const recordingRef = useRef<GhostDataPoint[]>([]);
+  const inputsRef = useRef<RaceInput[]>([]);
+  const remoteGoneRef = useRef(false);
+  const resultInRef = useRef(false);
+  const relayLostRef = useRef(false);
+  const stageSentRef = useRef(false);
+
+  // Time trial splits: the live ones come from the recording as each marker is passed
+  const [markers] = useState(() => splitMarkers(trackLength));
+  // Held for the whole pass, so a new best saved at the finish doesn't become the comparison
+  const [bestRun] = useState(personalBest);
+  const [bestSplits] = useState(() => bestRun ? splitTimes(bestRun.data, markers) : markers.map(() => null));
+  const [splits, setSplits] = useState<(number | null)[]>(() => markers.map(() => null));
+  const nextSplitRef = useRef(0);
 
   // UI State
-  const [countdown, setCountdown] = useState(3);
-  const [rpmDisplay, setRpmDisplay] = useState(IDLE_RPM);
+  const engine = resolveEngine(stats);
+  const [rpmDisplay, setRpmDisplay] = useState(engine.idleRpm);
   const [gearDisplay, setGearDisplay] = useState(1);
+  const [tireTempDisplay, setTireTempDisplay] = useState(player.tireTemp);
   const [playerDistPercent, setPlayerDistPercent] = useState(0);
   const [enemyDistPercent, setEnemyDistPercent] = useState(0);
   const [feedback, setFeedback] = useState<string | null>(null);
+  const [showAIDebug, setShowAIDebug] = useState(false);
+  const [awaitingTree, setAwaitingTree] = useState(false);
+  const [relayNotice, setRelayNotice] = useState<string | null>(null);
+  const [finished, setFinished] = useState(false);
+  const [idealRpms, setIdealRpms] = useState<number[] | null>(null);
+
+  // Every input is logged with its tick so an online pass can be re-run on the relay
+  const recordInput = (kind: RaceInputKind) => {
+    inputsRef.current.push({ tick: session.tick, kind });
+  };
 
-  // --- Physics Helper Function ---
-  const calculatePhysicsStep = (
-      car: CarPhysicsState, 
-      carStats: CarStats, 
-      isAI: boolean
-  ) => {
-    if (car.finished) return;
-
-    // --- 1. Constants & Stat Mapping ---
-    // Engine Torque Multiplier: Maps 1-10 stat to 1.0x - 1.8x
-    const torqueMult = 1.0 + ((carStats.acceleration - 1) / 9) * 0.8; 
-    
-    // Final Drive Ratio: Higher Top Speed stat = Lower numerical ratio (longer gears)
-    const finalDrive = 4.5 - ((carStats.topSpeed - 1) / 9) * 2.0;
-
-    // --- 2. Aerodynamics & Environment ---
-    const airDensity = 1.225; // kg/m^3
-    const frontalArea = 2.2; // m^2
-    const Cd = 0.32; // Drag Coefficient
-    
-    // Downforce Coefficient (Cl): Grip stat improves aero downforce package
-    // Range: 0.1 (No aero) to 0.8 (High downforce wing)
-    const Cl = 0.1 + ((carStats.grip - 1) / 9) * 0.7; 
-
-    // Calculate Aero Forces
-    const aeroDrag = 0.5 * airDensity * Cd * frontalArea * car.speed * car.speed;
-    const aeroDownforce = 0.5 * airDensity * Cl * frontalArea * car.speed * car.speed;
-
-    // --- 3. Tire Physics & Friction ---
-    // Coefficient of Friction (mu): Maps 1-10 stat to 0.9 (Street Tires) - 1.6 (Drag Slicks)
-    let mu = 0.9 + ((carStats.grip - 1) / 9) * 0.7;
-    
-    // Dynamic Normal Load on Rear Tires (Drive Wheels)
-    // Base weight distribution 60% rear for a drag car + Aero Downforce
-    const gravity = 9.81;
-    const rearWeightLoad = (BASE_WEIGHT * gravity * 0.60) + aeroDownforce;
-    
-    // Calculate Traction Limit (The max force tires can put down before slipping)
-    const maxTraction = rearWeightLoad * mu;
-
-    // --- 4. Engine Torque Calculation ---
-    const normRpm = car.rpm / REDLINE;
-    // Simple torque curve: Peaky in middle, drops off near redline
-    let torqueCurve = 0.5 + 2.0 * normRpm - 2.5 * normRpm * normRpm; 
-    if (car.rpm > REDLINE) torqueCurve = 0; 
-    
-    const engineTorque = BASE_HORSEPOWER * torqueMult * Math.max(0, torqueCurve);
-    const currentGearRatio = GEAR_RATIOS[car.gear - 1];
-    const wheelRadius = 0.33; // meters
-    
-    // Force attempted to be applied to the ground
-    let driveForce = (engineTorque * currentGearRatio * finalDrive) / wheelRadius;
-
-    // --- 5. Grip Check (Static vs Kinetic Friction) ---
-    if (driveForce > maxTraction) {
-        car.wheelSpin = true;
-        // Kinetic Friction Penalty: Once spinning, grip drops significantly (0.8x)
-        // This simulates "blowing the tires off" - you must throttle down (or shift) to recover
-        driveForce = maxTraction * 0.8; 
-    } else {
-        car.wheelSpin = false;
-        // If not spinning, we apply full requested force
-    }
-
-    // --- 6. Integration (Force = Mass * Accel) ---
-    const netForce = driveForce - aeroDrag;
-    const accel = netForce / BASE_WEIGHT;
-    
-    car.speed += accel * DT;
-    if (car.speed < 0) car.speed = 0;
-    car.distance += car.speed * DT;
-
-    // --- 7. RPM Physics ---
-    const wheelCircumference = 2 * Math.PI * wheelRadius;
-    const targetRpm = (car.speed / wheelCircumference) * currentGearRatio * finalDrive * 60;
-    
-    if (car.wheelSpin) {
-        // If spinning, RPM flares up rapidly towards redline
-        car.rpm += 8000 * DT;
-    } else {
-        // If hooked up, RPM matches wheel speed, but cannot drop below idle
-        // We apply a slight lag for 'inertia'
-        car.rpm = car.rpm * 0.8 + Math.max(IDLE_RPM, targetRpm) * 0.2;
-    }
+  // Advances the whole race by exactly one DT
+  const simulateTick = () => {
+    const tick = session.tick;
+    const wasRunning = player.launched && !isCarDone(player);
+    const wasOut = player.dnf !== null;
+    const wasDone = isCarDone(player);
 
-    // Rev Limiter
-    if (car.rpm > REDLINE) {
-        car.rpm = REDLINE - 50; // Hard cut
-        car.speed -= 0.05; // Engine braking/loss of momentum on limiter
-    }
+    stepRaceSession(session);
+    if (!wasOut && player.dnf) showFeedback(player.dnf === 'CRASH' ? 'CRASHED!' : 'ENGINE BLOWN!');
 
-    // --- 8. AI Logic ---
-    if (isAI && !car.finished) {
-        const difficultyMod = opponent.difficulty || 1.0;
-        // AI shifts based on difficulty. Harder AI shifts closer to optimal.
-        const baseShiftPoint = 7000;
-        const randomVar = Math.random() * 800;
-        const shiftPoint = baseShiftPoint + (randomVar * difficultyMod);
-
-        if (car.rpm > shiftPoint && car.gear < 6) {
-             car.gear++;
-             // Artificial RPM drop for AI shift
-             car.rpm -= 2000; 
+    if (relay) {
+        // The done tick always goes out, or the rival would see this car stop short of the line
+        if (session.tick % NET_SEND_INTERVAL === 0 || (!wasDone && isCarDone(player))) {
+            relay.send({ type: 'state', car: carSnapshot(player, session.tick - session.tree.greenTick, session.phase === 'STAGING') });
         }
+        if (!wasDone && isCarDone(player)) relay.send({ type: 'finish', inputs: inputsRef.current });
     }
 
-    // --- 9. Finish Check ---
-    if (car.distance >= TRACK_LENGTH_METERS) {
-        car.finished = true;
-        car.finishTime = (Date.now() - car.startTime) / 1000;
+    // Record Data (on the player's own ET clock)
+    if (wasRunning) {
+        recordingRef.current.push({ t: elapsedSinceLaunch(player, tick), d: player.distance });
+        if (solo && nextSplitRef.current < markers.length && player.distance >= markers[nextSplitRef.current].meters) {
+            const times = splitTimes(recordingRef.current, markers);
+            nextSplitRef.current = times.filter(t => t !== null).length;
+            setSplits(times);
+        }
     }
-  };
 
-  const updateGhostState = (car: CarPhysicsState, replay: GhostReplay) => {
-      const now = Date.now();
-      const elapsed = (now - car.startTime) / 1000;
-
-      // Find interpolation points
-      // This is a simple linear search; could be optimized but fine for <2000 points
-      const data = replay.data;
-      if (elapsed >= replay.totalTime) {
-          car.finished = true;
-          car.distance = TRACK_LENGTH_METERS;
-          car.finishTime = replay.totalTime;
-          return;
-      }
+    if (player.speed > maxSpeed.current) maxSpeed.current = player.speed;
 
-      // Find frame
-      let i = 0;
-      while(i < data.length - 1 && data[i+1].t < elapsed) {
-          i++;
-      }
-      
-      const p1 = data[i];
-      const p2 = data[i+1];
-
-      if (p1 && p2) {
-          const range = p2.t - p1.t;
-          const progress = (elapsed - p1.t) / range;
-          car.distance = p1.d + (p2.d - p1.d) * progress;
-      } else if (p1) {
-          car.distance = p1.d;
-      }
+    if (gameState.current === 'STAGING' && session.tick > session.tree.greenTick) {
+        gameState.current = 'RACING';
+    }
   };
 
-  const updatePhysics = useCallback(() => {
-    if (gameState.current === 'COUNTDOWN' || gameState.current === 'FINISHED') return;
-
-    // --- Player Physics ---
-    calculatePhysicsStep(playerState.current, stats, false);
-    
-    // Record Data
-    const elapsed = (Date.now() - playerState.current.startTime) / 1000;
-    recordingRef.current.push({ t: elapsed, d: playerState.current.distance });
-
-    if (playerState.current.speed > maxSpeed.current) maxSpeed.current = playerState.current.speed;
-
-    // --- Enemy/Ghost Physics ---
-    if (ghostReplay) {
-        updateGhostState(enemyState.current, ghostReplay);
-    } else {
-        calculatePhysicsStep(enemyState.current, opponent.stats, true);
-    }
+  const updatePhysics = useCallback((now: number) => {
+    if (gameState.current === 'FINISHED') return;
 
-    if (playerState.current.finished && enemyState.current.finished) {
+    runFrameTicks(clockRef.current, now, () => {
+        simulateTick();
+        // An online rival who drops out is never done, so don't wait on them; once the relay
+        // has decided the race there's nothing left to wait for either
+        if (!isRaceOver(session) && !(remoteGoneRef.current && isCarDone(player)) && !resultInRef.current) return false;
         endRace();
-    }
-  }, [stats, opponent, ghostReplay]);
+        return true;
+    });
+  }, [session]);
 
   // --- Animation Loop ---
-  const animate = useCallback(() => {
-    updatePhysics();
+  const animate = useCallback((now: number) => {
+    updatePhysics(now);
     
-    setRpmDisplay(playerState.current.rpm);
-    setGearDisplay(playerState.current.gear);
-    setPlayerDistPercent((playerState.current.distance / TRACK_LENGTH_METERS) * 100);
-    setEnemyDistPercent((enemyState.current.distance / TRACK_LENGTH_METERS) * 100);
+    setRpmDisplay(player.rpm);
+    setGearDisplay(player.gear);
+    setTireTempDisplay(player.tireTemp);
+    setPlayerDistPercent((player.distance / trackLength) * 100);
+    setEnemyDistPercent((enemy.distance / trackLength) * 100);
     
-    if (gameState.current === 'RACING' || (!playerState.current.finished || !enemyState.current.finished)) {
+    if (gameState.current !== 'FINISHED') {
         requestRef.current = requestAnimationFrame(animate);
     }
   }, [updatePhysics]);
@@ -238,82 +175,191 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
   const endRace = () => {
     gameState.current = 'FINISHED';
     if (requestRef.current) cancelAnimationFrame(requestRef.current);
-    
-    const p = playerState.current;
-    const e = enemyState.current;
-    
-    setTimeout(() => {
-        onRaceFinish({
-            playerTime: p.finishTime,
-            enemyTime: e.finishTime,
-            playerWon: p.finishTime < e.finishTime,
+    setFinished(true);
+
+    const report = () => {
+        handlersRef.current.onRaceFinish({
+            playerTime: player.finished ? player.finishTime : Infinity,
+            enemyTime: enemy.finished ? enemy.finishTime : Infinity,
+            dnf: player.dnf,
+            playerWon: didPlayerWin(session),
+            reactionTime: player.reactionTime,
+            enemyReactionTime: enemy.reactionTime,
+            redLight: player.redLight,
+            enemyRedLight: enemy.redLight,
+            launchRpm: player.launchRpm,
+            launchWheelspin: player.launchSpinTime,
+            launchTireTemp: player.launchTireTemp,
+            launchTireGrip: tireGripFactor(stats, player.launchTireTemp),
+            gearSpinTime: player.gearSpinTime,
+            limiterTime: player.limiterTime,
+            sixtyFootTime: player.sixtyFootTime,
+            nitrousActivatedAt: player.nitrousActivatedAt,
             maxSpeed: maxSpeed.current * 3.6, // km/h
             perfectShifts: perfectShifts.current,
+            shifts: shiftLog.current,
+            engineDamage: player.engineDamage,
+            trackId: session.track.id,
+            seed: session.seed,
             replayData: recordingRef.current
         });
-    }, 1000);
+    };
+    // A time trial stays on the track, so there's no need to hold the finish on screen first
+    if (solo) report();
+    else finishTimerRef.current = setTimeout(report, 1000);
+  };
+
+  const showFeedback = (text: string) => {
+    setFeedback(text);
+    setTimeout(() => setFeedback(null), 800);
   };
 
   // --- Controls ---
-  const shiftUp = () => {
-    if (gameState.current !== 'RACING') return;
-    const p = playerState.current;
-    if (p.gear < 6) {
-        if (p.rpm > REDLINE - 200) {
-           setFeedback("LATE!");
-        } else if (p.rpm > 7000 && p.rpm < 7800) {
-           setFeedback("PERFECT!");
-           perfectShifts.current++;
-           p.speed += 1.5; // Small boost for perfect shift
-        } else if (p.rpm < 5000) {
-           setFeedback("EARLY");
-        } else {
-           setFeedback("GOOD");
-        }
+  const launch = () => {
+    recordInput('LAUNCH');
+    launchLane(session, session.player);
+    showFeedback(player.redLight ? 'RED LIGHT!' : `R/T ${player.reactionTime.toFixed(3)}`);
+  };
 
-        setTimeout(() => setFeedback(null), 800);
-        p.gear += 1;
-        // Mechanical RPM drop on shift
-        p.rpm = p.rpm * 0.65; 
-    }
+  const fireNitrous = () => {
+    recordInput('NITROUS');
+    if (activateNitrous(player, session.tick)) showFeedback('NITROUS!');
+  };
+
+  const shiftUp = () => {
+    const fromGear = player.gear;
+    const rpm = player.rpm;
+    recordInput('SHIFT');
+    const grade = shiftCarUp(player, stats);
+    if (!grade) return;
+
+    shiftLog.current.push({ fromGear, rpm, grade, time: (session.tick - player.launchTick) * DT });
+    if (grade === 'PERFECT') perfectShifts.current++;
+    showFeedback(SHIFT_FEEDBACK[grade]);
   };
 
   useEffect(() => {
-    const timer = setInterval(() => {
-        setCountdown((prev) => {
-            if (prev === 1) {
-                clearInterval(timer);
-                gameState.current = 'RACING';
-                playerState.current.startTime = Date.now();
-                enemyState.current.startTime = Date.now();
-                requestRef.current = requestAnimationFrame(animate);
-                return 0;
-            }
-            return prev - 1;
-        });
-    }, 1000);
+    requestRef.current = requestAnimationFrame(animate);
 
     return () => {
-        clearInterval(timer);
         if (requestRef.current) cancelAnimationFrame(requestRef.current);
+        if (finishTimerRef.current) clearTimeout(finishTimerRef.current);
     };
   }, [animate]);
 
-  const handleTap = () => {
-      shiftUp();
+  // Roll out of the water box and up to the line; the tree starts counting from here
+  const rollToLine = () => {
+      if (gameState.current !== 'BURNOUT') return;
+      recordInput('STAGE');
+      leaveBurnoutBox(session);
+      gameState.current = 'STAGING';
+      setAwaitingTree(false);
+  };
+
+  // Online, both players have to be staged before the relay starts the trees
+  const stage = () => {
+      if (!relay || relayLostRef.current) return rollToLine();
+      if (gameState.current !== 'BURNOUT') return;
+      relay.send({ type: 'staged', stats });
+      stageSentRef.current = true;
+      setAwaitingTree(true);
+  };
+
+  useEffect(() => {
+    if (!relay) return;
+    return relay.subscribe((message) => {
+        if (message.type === 'state') pushSnapshot(session.enemy.remote!, message.car);
+        if (message.type === 'tree') rollToLine();
+        if (message.type === 'left') remoteGoneRef.current = true;
+        if (message.type === 'result') resultInRef.current = true;
+        // The relay turned something down; say so and keep racing
+        if (message.type === 'error') setRelayNotice(message.message);
+        // A dropped relay sends no tree and no more rival state, so the pass finishes alone
+        if (message.type === 'closed') {
+            setRelayNotice(message.message);
+            remoteGoneRef.current = true;
+            relayLostRef.current = true;
+            if (stageSentRef.current) rollToLine();
+        }
+    });
+  }, [relay]);
+
+  // Press: in the box, spin the tires; on the line, hold to build launch RPM; once moving, shift
+  const handlePress = () => {
+      if (gameState.current === 'FINISHED') return;
+      if (!player.launched) {
+          recordInput('THROTTLE_ON');
+          player.throttle = true;
+      } else {
+          shiftUp();
+      }
+  };
+
+  // Release: off the throttle in the box, otherwise dump the clutch
+  const handleRelease = () => {
+      if (gameState.current === 'BURNOUT') {
+          recordInput('THROTTLE_OFF');
+          player.throttle = false;
+          return;
+      }
+      if (!player.launched && player.throttle) launch();
   };
 
+  // The search runs a few dozen headless passes, so let the track paint first
+  useEffect(() => {
+    if (!solo || !practice || idealRpms) return;
+    const timer = setTimeout(() => setIdealRpms(idealShiftRpms(stats, trackId)), 50);
+    return () => clearTimeout(timer);
+  }, [practice]);
+
+  // Keyboard: Space works the same as the touch controls, N fires the nitrous
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (e.code === 'KeyN' && !e.repeat) fireNitrous();
+        if (solo && e.code === 'KeyR' && !e.repeat) handlersRef.current.onRestart?.();
+        if (solo && e.code === 'KeyP' && !e.repeat) handlersRef.current.onPracticeToggle?.();
+        if (e.code === 'Enter' && !e.repeat) stage();
+        if (e.code === 'Backquote' && !e.repeat) setShowAIDebug(v => !v);
+        if (e.code !== 'Space' || e.repeat) return;
+        e.preventDefault();
+        handlePress();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+        if (e.code === 'Space') handleRelease();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+        window.removeEventListener('keydown', onKeyDown);
+        window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
+
   // Render variables
-  const dist = playerState.current.distance;
+  const dist = player.distance;
   const roadTextureOffset = (dist * 100) % 200; 
   
-  // Resolve enemy design (either from ghost data or null for default AI)
-  const enemyDesign = ghostReplay?.design;
+  const nitrousBottle = stats.nitrous?.bottleSize ?? 0;
+  const burningOut = player.inBurnout && player.throttle;
+  const tireGrip = tireGripFactor(stats, tireTempDisplay);
+  // Gauge spans ambient-ish to well past the window; the optimal band is marked
+  const tireOptimal = optimalTireTemp(stats);
+  const tireGaugeMax = tireOptimal + 60;
+
+  const ai = session.enemy.ai;
+
+  // Resolve enemy design (ghost data, the AI rival's livery, or null for the default body)
+  const enemyDesign = ghostReplay ? ghostReplay.design : opponent.design;
+
+  const idealRpm = solo && practice && idealRpms ? idealRpms[gearDisplay - 1] : undefined;
+  const personalBestBeaten = player.finished && !player.dnf && (!bestRun || player.finishTime < bestRun.totalTime);
 
   return (
     <div 
       className="relative w-full h-full bg-slate-900 overflow-hidden select-none"
-      onClick={handleTap}
+      onPointerDown={handlePress}
+      onPointerUp={handleRelease}
+      onPointerCancel={handleRelease}
     >
       {/* ================= SCENE (Top 65%) ================= */}
       
@@ -384,11 +430,16 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
            }}
          ></div>
 
+         {/* Standing water sheen */}
+         {session.track.surface === 'WET' && (
+           <div className="absolute inset-0 bg-gradient-to-b from-blue-400/20 to-slate-300/10 pointer-events-none"></div>
+         )}
+
          {/* Finish Line on Road */}
          <div 
             className="absolute top-0 bottom-0 w-8 left-4 sm:left-16 z-10 flex flex-col justify-center items-center"
             style={{ 
-                transform: `translateX(${(TRACK_LENGTH_METERS - playerState.current.distance) * 20}px)` 
+                transform: `translateX(${(trackLength - player.distance) * 20}px)` 
             }}
          >
             {/* Checkered Pattern */}
@@ -410,7 +461,9 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
             /* Custom Design Rendering */
             <div className="absolute left-4 sm:left-16 bottom-2 w-48 h-24 z-20 flex items-center" 
                 style={{ 
-                    transform: `translateY(${playerState.current.speed > 5 ? Math.sin(Date.now()/50)*2 : 0}px)`
+                    transform: `translateY(${player.speed > 5 ? Math.sin(Date.now()/50)*2 : 0}px) rotate(${-player.pitch}rad)`,
+                    // Pitch about the rear tire's contact patch
+                    transformOrigin: `${design.wheelPositions[0].x}% ${design.wheelPositions[0].y}%`
                 }}>
                 {/* Drawn Body Chassis */}
                 <img src={design.imageData} className="absolute w-full h-auto drop-shadow-xl" alt="Player Car" />
@@ -432,7 +485,7 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
                         <div 
                             className="w-full h-full rounded-full bg-black border-4 border-gray-400 shadow-lg animate-spin"
                             style={{
-                                animationDuration: `${Math.max(0.05, 10/Math.max(1, playerState.current.speed))}s`
+                                animationDuration: `${Math.max(0.05, 10/Math.max(1, player.speed))}s`
                             }}
                         >
                              {/* Rim Spokes */}
@@ -443,20 +496,21 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
                 ))}
 
                 {/* FX */}
-                {playerState.current.wheelSpin && <div className="absolute bottom-0 right-0 w-20 h-12 bg-white/40 blur-lg animate-pulse"></div>}
-                {rpmDisplay > 7000 && <div className="absolute -left-4 top-1/2 w-16 h-8 bg-orange-500 rounded-l-full animate-pulse blur-md opacity-90"></div>}
+                {(player.wheelSpin || burningOut) && <div className="absolute bottom-0 right-0 w-20 h-12 bg-white/40 blur-lg animate-pulse"></div>}
+                {rpmDisplay > engine.shiftMin && <div className="absolute -left-4 top-1/2 w-16 h-8 bg-orange-500 rounded-l-full animate-pulse blur-md opacity-90"></div>}
             </div>
          ) : (
              /* Default Car Rendering */
-             <div className="absolute left-4 sm:left-16 bottom-2 w-40 h-12 bg-cyan-500 rounded-tr-full rounded-tl-lg skew-x-[-15deg] shadow-[0_10px_30px_rgba(0,0,0,0.8)] flex items-center justify-center z-20">
-                 <div className="w-10 h-10 rounded-full bg-black border-4 border-gray-700 absolute -bottom-4 left-5 animate-spin" style={{ animationDuration: `${Math.max(0.05, 10/Math.max(1, playerState.current.speed))}s` }}></div>
-                 <div className="w-12 h-12 rounded-full bg-black border-4 border-gray-700 absolute -bottom-4 right-5 animate-spin" style={{ animationDuration: `${Math.max(0.05, 10/Math.max(1, playerState.current.speed))}s` }}></div>
+             <div className="absolute left-4 sm:left-16 bottom-2 w-40 h-12 bg-cyan-500 rounded-tr-full rounded-tl-lg skew-x-[-15deg] shadow-[0_10px_30px_rgba(0,0,0,0.8)] flex items-center justify-center z-20"
+                 style={{ '--tw-rotate': `${-player.pitch}rad`, transformOrigin: '15% 100%' }}>
+                 <div className="w-10 h-10 rounded-full bg-black border-4 border-gray-700 absolute -bottom-4 left-5 animate-spin" style={{ animationDuration: `${Math.max(0.05, 10/Math.max(1, player.speed))}s` }}></div>
+                 <div className="w-12 h-12 rounded-full bg-black border-4 border-gray-700 absolute -bottom-4 right-5 animate-spin" style={{ animationDuration: `${Math.max(0.05, 10/Math.max(1, player.speed))}s` }}></div>
                  
                  <div className="absolute inset-x-2 top-1 h-4 bg-cyan-300/30 skew-x-[20deg] rounded-sm"></div>
                  <span className="text-xs text-black font-black italic transform skew-x-[15deg] z-10">PLAYER</span>
                  
-                 {playerState.current.wheelSpin && <div className="absolute -bottom-2 left-4 w-16 h-10 bg-white/30 blur-lg animate-pulse"></div>}
-                 {rpmDisplay > 7000 && <div className="absolute -left-12 bottom-4 w-16 h-8 bg-orange-500 rounded-l-full animate-pulse blur-md opacity-90" style={{ transform: 'scaleX(var(--tw-scale-x))', '--tw-scale-x': (rpmDisplay-7000)/800 }}></div>}
+                 {(player.wheelSpin || burningOut) && <div className="absolute -bottom-2 left-4 w-16 h-10 bg-white/30 blur-lg animate-pulse"></div>}
+                 {rpmDisplay > engine.shiftMin && <div className="absolute -left-12 bottom-4 w-16 h-8 bg-orange-500 rounded-l-full animate-pulse blur-md opacity-90" style={{ transform: 'scaleX(var(--tw-scale-x))', '--tw-scale-x': (rpmDisplay - engine.shiftMin) / (engine.shiftMax - engine.shiftMin) }}></div>}
              </div>
          )}
 
@@ -464,8 +518,8 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
          <div 
             className="absolute bottom-16 z-10 transition-transform duration-75"
             style={{ 
-                left: `calc(4rem + ${(enemyState.current.distance - playerState.current.distance) * 20}px)`, 
-                display: Math.abs(enemyState.current.distance - playerState.current.distance) > 50 ? 'none' : 'block'
+                left: `calc(4rem + ${(enemy.distance - player.distance) * 20}px)`, 
+                display: solo || Math.abs(enemy.distance - player.distance) > 50 ? 'none' : 'block'
             }}
          >
              {enemyDesign ? (
@@ -474,7 +528,7 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
                      <img src={enemyDesign.imageData} className="absolute w-full h-auto drop-shadow-xl" alt="Enemy Car" />
                      {enemyDesign.wheelPositions.map((pos, i) => (
                         <div key={i} className="absolute w-12 h-12" style={{ left: `${pos.x}%`, top: `${pos.y}%`, transform: 'translate(-50%, -50%)' }}>
-                            <div className="w-full h-full rounded-full bg-black border-4 border-gray-400 shadow-lg animate-spin" style={{ animationDuration: `${Math.max(0.05, 10/Math.max(1, enemyState.current.speed))}s` }}>
+                            <div className="w-full h-full rounded-full bg-black border-4 border-gray-400 shadow-lg animate-spin" style={{ animationDuration: `${Math.max(0.05, 10/Math.max(1, enemy.speed))}s` }}>
                                 <div className="absolute inset-0 border-t-2 border-b-2 border-gray-600 rotate-45"></div>
                                 <div className="absolute inset-0 border-r-2 border-l-2 border-gray-600"></div>
                             </div>
@@ -503,26 +557,130 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
       {/* Progress Bar (Top) */}
       <div className="absolute top-4 left-4 right-4 h-3 bg-gray-800 rounded-full z-40 overflow-hidden border border-gray-600 shadow-lg pointer-events-none">
           <div className="absolute top-0 bottom-0 w-2 bg-cyan-400 shadow-[0_0_10px_#22d3ee]" style={{ left: `${Math.min(playerDistPercent, 100)}%` }} />
-          <div className={`absolute top-0 bottom-0 w-2 shadow-[0_0_10px_#ef4444] ${ghostReplay ? 'bg-blue-400' : 'bg-red-500'}`} style={{ left: `${Math.min(enemyDistPercent, 100)}%` }} />
+          {!solo && <div className={`absolute top-0 bottom-0 w-2 shadow-[0_0_10px_#ef4444] ${ghostReplay ? 'bg-blue-400' : 'bg-red-500'}`} style={{ left: `${Math.min(enemyDistPercent, 100)}%` }} />}
           <div className="absolute top-0 bottom-0 w-1 bg-white" style={{ left: '100%' }} />
       </div>
 
       {/* Shift Feedback (Moved High Up) */}
       <div className="absolute top-24 w-full flex justify-center z-50 pointer-events-none">
           {feedback && (
-              <div className={`text-5xl md:text-7xl font-black italic animate-bounce drop-shadow-xl stroke-black ${feedback === 'PERFECT!' ? 'text-green-400' : feedback === 'LATE!' ? 'text-red-500' : 'text-yellow-400'}`}>
+              <div className={`text-5xl md:text-7xl font-black italic animate-bounce drop-shadow-xl stroke-black ${feedback === 'PERFECT!' ? 'text-green-400' : feedback === 'LATE!' || feedback === 'RED LIGHT!' ? 'text-red-500' : 'text-yellow-400'}`}>
                   {feedback}
               </div>
           )}
       </div>
 
-      {/* Countdown Overlay */}
-      {countdown > 0 && (
-          <div className="absolute inset-0 bg-black/60 z-[60] flex items-center justify-center pointer-events-none">
-              <span className="text-9xl font-black text-white animate-ping">{countdown}</span>
+      {/* Christmas Tree Overlay */}
+      {isTreeShowing(session) && (
+          <ChristmasTree tree={session.tree} tick={session.tick} cars={[player, enemy]} />
+      )}
+
+
+      {/* AI Debug Overlay (toggle with `) */}
+      {showAIDebug && ai && (
+          <div className="absolute top-10 right-4 z-[70] pointer-events-none bg-black/80 border border-slate-600 rounded p-2 font-mono text-[10px] text-slate-300 w-56">
+              <div className="text-yellow-400 font-bold mb-1">{ai.profile.personality} · R/T {ai.profile.reactionTime.toFixed(3)}±{ai.profile.reactionSpread.toFixed(3)}</div>
+              <div>Launch {Math.round(ai.launchRpm)} · NOS gear {ai.nitrousGear || '-'}</div>
+              <div>Mistakes {(ai.profile.mistakeRate * 100).toFixed(0)}% · Pedals {ai.pedalCount}{ai.pedaling ? ' (feathering)' : ''}</div>
+              <div className="mb-1">Next shift {ai.plan ? `${Math.round(ai.plan.rpm)} (${ai.plan.reason})` : '-'}</div>
+              {ai.decisions.slice(-5).map(d => (
+                  <div key={d.tick} className={d.grade === 'PERFECT' ? 'text-green-400' : d.grade === 'LATE' || d.grade === 'EARLY' ? 'text-red-400' : ''}>
+                      {d.fromGear}→{d.fromGear + 1} @{Math.round(d.rpm)} / {Math.round(d.plannedRpm)} {d.reason} {d.grade}
+                  </div>
+              ))}
+          </div>
+      )}
+
+      {/* Time Trial Splits (R restarts, P toggles practice) */}
+      {solo && (
+          <div className="absolute top-10 left-4 z-[70] bg-black/70 border border-slate-600 rounded p-2 font-mono text-xs w-52">
+              {markers.map((marker, i) => {
+                  const time = splits[i];
+                  const best = bestSplits[i];
+                  return (
+                      <div key={marker.label} className="flex justify-between gap-2">
+                          <span className="text-slate-400 uppercase">{marker.label}</span>
+                          <span className="text-white">{time !== null ? time.toFixed(3) : '--.---'}</span>
+                          <span className={`w-14 text-right ${time === null || best === null ? 'text-slate-600' : time <= best ? 'text-green-400' : 'text-red-500'}`}>
+                              {time !== null && best !== null ? formatDelta(time - best) : best !== null ? best.toFixed(3) : ''}
+                          </span>
+                      </div>
+                  );
+              })}
+              <div className="flex gap-1 mt-2">
+                  <button
+                      onPointerDown={(e) => { e.stopPropagation(); onRestart?.(); }}
+                      onPointerUp={(e) => e.stopPropagation()}
+                      className="flex-1 py-1 bg-slate-700 hover:bg-slate-600 text-white font-bold rounded uppercase text-[10px]"
+                  >
+                      Restart (R)
+                  </button>
+                  <button
+                      onPointerDown={(e) => { e.stopPropagation(); onPracticeToggle?.(); }}
+                      onPointerUp={(e) => e.stopPropagation()}
+                      className={`flex-1 py-1 font-bold rounded uppercase text-[10px] ${practice ? 'bg-amber-500 text-black' : 'bg-slate-700 hover:bg-slate-600 text-white'}`}
+                  >
+                      Practice (P)
+                  </button>
+              </div>
+          </div>
+      )}
+
+      {/* Time Trial Finish */}
+      {solo && finished && (
+          <div className="absolute top-1/4 left-1/2 -translate-x-1/2 z-[80] bg-black/80 border border-slate-600 rounded-lg px-8 py-4 flex flex-col items-center gap-2">
+              <span className="text-xs text-slate-400 font-bold tracking-widest uppercase">{session.track.name}</span>
+              <span className={`text-4xl font-black font-mono ${personalBestBeaten ? 'text-green-400' : 'text-white'}`}>
+                  {player.finished ? `${player.finishTime.toFixed(3)}s` : player.dnf ?? 'NO TIME'}
+              </span>
+              <span className="text-xs font-bold uppercase tracking-wider text-slate-300">
+                  {player.redLight ? 'Red Light · ' : `R/T ${player.reactionTime.toFixed(3)} · `}
+                  {personalBestBeaten ? 'New Personal Best' : bestRun ? `PB ${bestRun.totalTime.toFixed(3)}s` : 'No Time Set'}
+              </span>
+              <div className="flex gap-2 mt-2">
+                  <button
+                      onPointerDown={(e) => { e.stopPropagation(); onRestart?.(); }}
+                      onPointerUp={(e) => e.stopPropagation()}
+                      className="px-6 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider"
+                  >
+                      Restart
+                  </button>
+                  <button
+                      onPointerDown={(e) => { e.stopPropagation(); onExit?.(); }}
+                      onPointerUp={(e) => e.stopPropagation()}
+                      className="px-6 py-2 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider"
+                  >
+                      Exit
+                  </button>
+              </div>
+          </div>
+      )}
+
+      {relayNotice && (
+          <div className="absolute bottom-[37%] left-1/2 -translate-x-1/2 z-[60] px-3 py-1 bg-black/70 border border-red-700 rounded text-xs text-red-300 font-mono pointer-events-none">
+              {relayNotice}
           </div>
       )}
 
+      {/* Burnout Box: heat the tires, then roll up to the line */}
+      {session.phase === 'BURNOUT' && (
+          <div className="absolute top-10 left-1/2 -translate-x-1/2 z-[60] flex flex-col items-center gap-2">
+              <span className="text-xs text-slate-300 font-bold tracking-widest uppercase">Burnout Box</span>
+              {awaitingTree ? (
+                  <span className="px-6 py-2 text-yellow-400 font-black uppercase tracking-wider animate-pulse">
+                      Waiting for {opponent.name} to stage
+                  </span>
+              ) : (
+                  <button
+                      onPointerDown={(e) => { e.stopPropagation(); stage(); }}
+                      onPointerUp={(e) => e.stopPropagation()}
+                      className="px-6 py-2 bg-yellow-500 hover:bg-yellow-400 text-black font-black uppercase tracking-wider rounded shadow-[0_0_15px_rgba(234,179,8,0.6)]"
+                  >
+                      Stage
+                  </button>
+              )}
+          </div>
+      )}
 
       {/* ================= DASHBOARD CONSOLE (Bottom 35%) ================= */}
       <div 
@@ -544,9 +702,30 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
               </div>
           </div>
 
+          {/* Tire Temperature Gauge */}
+          <div className="relative z-10 flex flex-col items-center gap-1">
+              <span className="text-slate-500 text-xs font-bold uppercase tracking-widest">Tires</span>
+              <div className="relative w-4 h-16 md:h-20 bg-slate-900 rounded-full border-2 border-slate-700 overflow-hidden flex items-end">
+                  <div
+                      className="absolute inset-x-0 bg-green-500/30"
+                      style={{ bottom: `${(tireOptimal / tireGaugeMax) * 100}%`, height: `${(TIRE_WINDOW / tireGaugeMax) * 100}%` }}
+                  />
+                  <div
+                      className={`w-full ${tireGrip >= 1 ? 'bg-green-400' : tireTempDisplay > tireOptimal ? 'bg-red-500' : 'bg-sky-400'}`}
+                      style={{ height: `${Math.min(100, (tireTempDisplay / tireGaugeMax) * 100)}%` }}
+                  />
+              </div>
+              <span className="text-[10px] text-slate-400 font-mono">{Math.round(tireTempDisplay)}°C</span>
+          </div>
+
           {/* Center: Tachometer */}
           <div className="relative z-10 transform scale-90 md:scale-110">
-               <Tachometer rpm={rpmDisplay} />
+               <Tachometer rpm={rpmDisplay} gear={gearDisplay} gearCount={gearCount(stats)} engine={engine} />
+               {idealRpm !== undefined && (
+                   <div className={`absolute -top-6 inset-x-0 text-center text-[10px] font-mono font-bold tracking-wider ${Math.abs(rpmDisplay - idealRpm) <= IDEAL_SHIFT_TOLERANCE ? 'text-green-400' : 'text-amber-400'}`}>
+                       IDEAL SHIFT {idealRpm}
+                   </div>
+               )}
           </div>
 
           {/* Right: Digital Speedometer */}
@@ -554,15 +733,40 @@ const RaceTrack: React.FC<RaceTrackProps> = ({ stats, opponent, design, ghostRep
                <span className="text-slate-500 text-xs font-bold uppercase tracking-widest mb-1">Speed</span>
                <div className="flex items-baseline">
                    <span className="text-5xl md:text-7xl font-black font-mono text-cyan-400 drop-shadow-[0_0_15px_rgba(34,211,238,0.6)]">
-                      {(playerState.current.speed * 3.6).toFixed(0)}
+                      {(player.speed * 3.6).toFixed(0)}
                    </span>
                    <span className="text-sm md:text-base text-slate-500 font-bold ml-1">KM/H</span>
                </div>
           </div>
 
+          {/* Far Right: Nitrous Button & Bottle Gauge */}
+          {nitrousBottle > 0 && (
+              <div className="relative z-10 flex flex-col items-center gap-2">
+                  <span className="text-slate-500 text-xs font-bold uppercase tracking-widest">NOS</span>
+                  <div className="w-4 h-16 md:h-20 bg-slate-900 rounded-full border-2 border-slate-700 overflow-hidden flex items-end">
+                      <div
+                          className={`w-full bg-fuchsia-500 ${player.nitrousActive ? 'animate-pulse shadow-[0_0_10px_#d946ef]' : ''}`}
+                          style={{ height: `${(player.nitrousRemaining / nitrousBottle) * 100}%` }}
+                      />
+                  </div>
+                  <button
+                      onPointerDown={(e) => { e.stopPropagation(); fireNitrous(); }}
+                      onPointerUp={(e) => e.stopPropagation()}
+                      disabled={!player.launched || player.nitrousActivatedAt !== null}
+                      className="w-14 h-14 rounded-full bg-fuchsia-700 border-4 border-fuchsia-400 text-white text-xs font-black shadow-[0_0_15px_rgba(217,70,239,0.6)] disabled:opacity-30 disabled:shadow-none"
+                  >
+                      N2O
+                  </button>
+              </div>
+          )}
+
           {/* Tap Prompt (Small, at bottom of dash) */}
           <div className="absolute bottom-2 inset-x-0 text-center pointer-events-none">
-              <span className="text-[10px] text-slate-600 font-bold animate-pulse tracking-[0.3em]">TAP DASHBOARD TO SHIFT</span>
+              <span className="text-[10px] text-slate-600 font-bold animate-pulse tracking-[0.3em]">
+                  {player.launched
+                      ? 'TAP DASHBOARD TO SHIFT'
+                      : player.inBurnout ? 'HOLD TO BURN OUT - STAGE WHEN READY' : 'HOLD TO REV - RELEASE ON GREEN'}
+              </span>
           </div>
       </div>
 
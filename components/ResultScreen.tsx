@@ -1,33 +1,96 @@
-import React from 'react';
-import { RaceResult, Opponent } from '../types';
+import React, { useEffect, useState } from 'react';
+import { RaceResult, Opponent, DnfReason } from '../types';
+import { TRACKS } from '../services/tracks';
+import { XpBreakdown } from '../services/progression';
+import { CareerOutcome } from '../services/career';
+import { RaceRecap } from '../services/raceRecap';
+import { generateRaceRecap } from '../services/geminiService';
 
 interface ResultScreenProps {
   result: RaceResult;
   opponent: Opponent;
+  xp: XpBreakdown | null; // Null for races that don't count (ghosts)
+  level: number; // Player level after this race
+  career?: CareerOutcome | null; // Set for career races
   onReset: () => void;
+  resetLabel?: string;
   onGarage: () => void;
 }
 
-const ResultScreen: React.FC<ResultScreenProps> = ({ result, opponent, onReset, onGarage }) => {
+const DNF_LABELS: Record<DnfReason, string> = {
+  CRASH: 'Wheelie Went Over',
+  BLOWN_ENGINE: 'Engine Blown',
+};
+
+const ResultScreen: React.FC<ResultScreenProps> = ({ result, opponent, xp, level, career, onReset, resetLabel = 'Race Again', onGarage }) => {
+  const [recap, setRecap] = useState<RaceRecap | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecap(null);
+    generateRaceRecap(result, opponent).then(r => { if (!cancelled) setRecap(r); });
+    return () => { cancelled = true; };
+  }, [result, opponent]);
+
   return (
     <div className="absolute inset-0 z-50 bg-slate-900/90 backdrop-blur-md flex flex-col items-center justify-center p-6 animate-fade-in">
       <h1 className={`text-6xl font-black italic uppercase mb-2 ${result.playerWon ? 'text-green-500' : 'text-red-500'}`}>
         {result.playerWon ? 'VICTORY' : 'DEFEAT'}
       </h1>
+      <div className="text-xs text-gray-500 uppercase tracking-widest mb-2">
+        {TRACKS[result.trackId].name} · {TRACKS[result.trackId].distanceLabel}
+      </div>
+      {result.dnf && (
+        <div className="text-orange-500 font-black uppercase tracking-widest mb-2 animate-pulse">
+          DNF - {DNF_LABELS[result.dnf]}
+        </div>
+      )}
+      {(result.redLight || result.enemyRedLight) && (
+        <div className="text-red-500 font-black uppercase tracking-widest mb-2 animate-pulse">
+          {result.redLight ? 'Red Light - You Jumped the Start' : `Red Light - ${opponent.name} Jumped the Start`}
+        </div>
+      )}
       
-      <p className="text-gray-300 italic mb-8 text-center max-w-sm">
-        "{result.playerWon ? "Not bad... for a rookie." : opponent.taunt}" 
-        <br/><span className="text-xs text-gray-500">- {opponent.name}</span>
-      </p>
+      {recap ? (
+        <div className="mb-8 text-center max-w-sm">
+          <p className="text-yellow-300 font-bold text-sm mb-2">{recap.commentary}</p>
+          <p className="text-gray-300 italic">
+            "{recap.rivalReaction}"
+            <br/><span className="text-xs text-gray-500">- {opponent.name}</span>
+          </p>
+        </div>
+      ) : (
+        <p className="text-gray-500 text-xs uppercase tracking-widest mb-8 animate-pulse">Commentary box is on the mic...</p>
+      )}
 
       <div className="grid grid-cols-2 gap-4 w-full max-w-md mb-8">
         <div className="bg-slate-800 p-4 rounded border border-slate-600 text-center">
           <div className="text-gray-400 text-xs uppercase">Your Time</div>
-          <div className="text-2xl text-white font-mono">{result.playerTime.toFixed(3)}s</div>
+          <div className="text-2xl text-white font-mono">{Number.isFinite(result.playerTime) ? `${result.playerTime.toFixed(3)}s` : 'DNF'}</div>
         </div>
         <div className="bg-slate-800 p-4 rounded border border-slate-600 text-center">
           <div className="text-gray-400 text-xs uppercase">Opponent</div>
-          <div className="text-2xl text-white font-mono">{result.enemyTime.toFixed(3)}s</div>
+          <div className="text-2xl text-white font-mono">{Number.isFinite(result.enemyTime) ? `${result.enemyTime.toFixed(3)}s` : 'DNF'}</div>
+        </div>
+        <div className="bg-slate-800 p-4 rounded border border-slate-600 text-center">
+          <div className="text-gray-400 text-xs uppercase">Your Reaction</div>
+          <div className={`text-2xl font-mono ${result.redLight ? 'text-red-500' : 'text-yellow-400'}`}>{result.reactionTime.toFixed(3)}s</div>
+        </div>
+        <div className="bg-slate-800 p-4 rounded border border-slate-600 text-center">
+          <div className="text-gray-400 text-xs uppercase">Opp. Reaction</div>
+          <div className={`text-2xl font-mono ${result.enemyRedLight ? 'text-red-500' : 'text-yellow-400'}`}>{result.enemyReactionTime.toFixed(3)}s</div>
+        </div>
+        <div className="bg-slate-800 p-4 rounded border border-slate-600 text-center">
+          <div className="text-gray-400 text-xs uppercase">60 Ft</div>
+          <div className="text-2xl text-white font-mono">{result.sixtyFootTime > 0 ? `${result.sixtyFootTime.toFixed(3)}s` : '--'}</div>
+        </div>
+        <div className="bg-slate-800 p-4 rounded border border-slate-600 text-center">
+          <div className="text-gray-400 text-xs uppercase">Launch</div>
+          <div className="text-2xl text-white font-mono">{Math.round(result.launchRpm)} <span className="text-xs text-gray-500">RPM</span></div>
+          <div className={`text-xs font-mono ${result.launchWheelspin > 0.3 ? 'text-red-400' : 'text-gray-400'}`}>{result.launchWheelspin.toFixed(2)}s wheelspin</div>
+          <div className={`text-xs font-mono ${result.launchTireGrip < 0.9 ? 'text-orange-400' : 'text-gray-400'}`}>
+            {Math.round(result.launchTireTemp)}°C tires · {Math.round(result.launchTireGrip * 100)}% grip
+          </div>
         </div>
         <div className="bg-slate-800 p-4 rounded border border-slate-600 text-center">
           <div className="text-gray-400 text-xs uppercase">Top Speed</div>
@@ -37,6 +100,38 @@ const ResultScreen: React.FC<ResultScreenProps> = ({ result, opponent, onReset,
           <div className="text-gray-400 text-xs uppercase">Perfect Shifts</div>
           <div className="text-2xl text-green-400 font-mono">{result.perfectShifts}</div>
         </div>
+        <div className="col-span-2 bg-slate-800 p-2 rounded border border-slate-600 text-center">
+          <div className="flex justify-between text-xs uppercase mb-1">
+            <span className="text-gray-400">Engine Health</span>
+            <span className={`font-mono ${result.engineDamage > 0.6 ? 'text-red-400' : 'text-gray-300'}`}>{Math.round((1 - result.engineDamage) * 100)}%</span>
+          </div>
+          <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+            <div className={`h-full ${result.engineDamage > 0.6 ? 'bg-red-500' : 'bg-green-500'}`} style={{ width: `${(1 - result.engineDamage) * 100}%` }} />
+          </div>
+        </div>
+        {xp && (
+          <div className="col-span-2 bg-slate-800 p-2 rounded border border-cyan-900 text-center text-xs font-mono uppercase">
+            <span className="text-cyan-400 font-bold">+{xp.total} XP</span>
+            <span className="text-gray-500">
+              {' '}· Race {xp.race} · Win {xp.win} · Shifts {xp.perfectShifts} · Margin {xp.margin}
+            </span>
+            <span className="text-cyan-400"> · Level {level}</span>
+          </div>
+        )}
+        {career && (
+          <div className="col-span-2 bg-slate-800 p-2 rounded border border-amber-900 text-center text-xs font-mono uppercase">
+            <span className={career.cash >= 0 ? 'text-green-400' : 'text-red-400'}>
+              {career.cash >= 0 ? '+' : '-'}${Math.abs(career.cash).toLocaleString()}
+            </span>
+            <span className="text-amber-400"> · {career.reputation >= 0 ? '+' : ''}{career.reputation} Rep</span>
+            {career.unlocked && <div className="text-amber-300 font-bold mt-1">{career.unlocked}</div>}
+          </div>
+        )}
+        {result.nitrousActivatedAt !== null && (
+          <div className="col-span-2 bg-slate-800 p-2 rounded border border-fuchsia-900 text-center text-xs text-fuchsia-300 font-mono uppercase">
+            Nitrous fired at {result.nitrousActivatedAt.toFixed(2)}s
+          </div>
+        )}
       </div>
 
       <div className="flex gap-4 w-full max-w-md">
@@ -48,9 +143,10 @@ const ResultScreen: React.FC<ResultScreenProps> = ({ result, opponent, onReset,
         </button>
         <button 
             onClick={onReset}
-            className="flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider shadow-[0_0_15px_#06b6d4] transition-colors"
+            disabled={result.engineDamage >= 1}
+            className="flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider shadow-[0_0_15px_#06b6d4] transition-colors disabled:bg-gray-800 disabled:text-gray-500 disabled:shadow-none"
         >
-            Race Again
+            {result.engineDamage >= 1 ? 'Needs Repair' : resetLabel}
         </button>
       </div>
     </div>
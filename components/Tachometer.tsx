@@ -1,33 +1,48 @@
 import React, { useEffect, useState } from 'react';
-import { REDLINE, OPTIMAL_SHIFT_MIN, OPTIMAL_SHIFT_MAX } from '../constants';
+import { EngineProfile } from '../services/engineProfiles';
 
 interface TachometerProps {
   rpm: number;
+  gear: number;
+  gearCount: number; // The car's own gearbox, 4 to 8 speeds
+  engine: EngineProfile; // Sets the dial range, redline zone and shift lights
 }
 
-const Tachometer: React.FC<TachometerProps> = ({ rpm }) => {
-  // Normalize RPM to 0-1 range for rotation
-  const maxRpm = 9000;
+// Point on the dial at a clockwise angle from 12 o'clock (SVG units)
+const dialPoint = (deg: number, radius: number) => {
+  const rad = (deg * Math.PI) / 180;
+  return `${50 + radius * Math.sin(rad)} ${50 - radius * Math.cos(rad)}`;
+};
+
+const Tachometer: React.FC<TachometerProps> = ({ rpm, gear, gearCount, engine }) => {
+  // Normalize RPM to 0-1 range for rotation; the dial runs a little past redline
+  const maxRpm = engine.redline * 1.125;
   const normalizedRpm = Math.min(rpm, maxRpm) / maxRpm;
   // Angle: -120deg to +90deg (210 degree span for a wider gauge look)
   const startAngle = -120;
   const endAngle = 90;
   const totalAngle = endAngle - startAngle;
   const angle = startAngle + (normalizedRpm * totalAngle); 
+  const redlineAngle = startAngle + (engine.redline / maxRpm) * totalAngle;
 
   const [shiftLightColor, setShiftLightColor] = useState('bg-slate-900');
 
+  // No more gears to pull in top gear, so the shift lights only warn about the limiter
+  const inTopGear = gear >= gearCount;
+
   useEffect(() => {
-    if (rpm >= REDLINE - 100) {
+    if (rpm >= engine.redline - 100) {
       setShiftLightColor('bg-red-600 animate-pulse shadow-[0_0_30px_#dc2626]');
-    } else if (rpm >= OPTIMAL_SHIFT_MIN) {
+    } else if (inTopGear) {
+      setShiftLightColor('bg-slate-800');
+    } else if (rpm >= engine.shiftMin) {
       setShiftLightColor('bg-green-500 shadow-[0_0_20px_#22c55e]');
-    } else if (rpm >= OPTIMAL_SHIFT_MIN - 1000) {
+    } else if (rpm >= engine.shiftMin - engine.redline / 8) {
       setShiftLightColor('bg-yellow-500');
     } else {
       setShiftLightColor('bg-slate-800');
     }
-  }, [rpm]);
+  }, [rpm, inTopGear, engine]);
 
   return (
     <div className="relative w-48 h-48 sm:w-56 sm:h-56 flex flex-col items-center justify-center">
@@ -41,7 +56,7 @@ const Tachometer: React.FC<TachometerProps> = ({ rpm }) => {
       <div className="absolute inset-2 rounded-full">
          <svg viewBox="0 0 100 100" className="w-full h-full p-1">
             {/* Redline Zone Arc */}
-            <path d="M 68 85 A 40 40 0 0 0 88 50" fill="none" stroke="#ef4444" strokeWidth="4" transform={`rotate(${startAngle + 120} 50 50)`} />
+            <path d={`M ${dialPoint(redlineAngle, 40)} A 40 40 0 0 1 ${dialPoint(endAngle, 40)}`} fill="none" stroke="#ef4444" strokeWidth="4" />
             
             {/* Tick Marks */}
             {[...Array(10)].map((_, i) => {
@@ -51,7 +66,7 @@ const Tachometer: React.FC<TachometerProps> = ({ rpm }) => {
                     <g key={i} transform={`rotate(${rot} 50 50)`}>
                         <line 
                             x1="50" y1="12" x2="50" y2="20" 
-                            stroke={i > 7 ? '#ef4444' : '#94a3b8'} 
+                            stroke={i * maxRpm / 9 >= engine.redline ? '#ef4444' : '#94a3b8'} 
                             strokeWidth="2"
                         />
                     </g>
@@ -64,6 +79,12 @@ const Tachometer: React.FC<TachometerProps> = ({ rpm }) => {
       <div className="absolute top-2/3 left-1/2 transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center z-10">
           <span className="text-xl font-mono font-bold text-cyan-400">{Math.round(rpm)}</span>
           <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">x1000 RPM</span>
+          {/* Gear Pips */}
+          <div className="flex gap-1 mt-1">
+            {Array.from({ length: gearCount }, (_, i) => (
+              <div key={i} className={`w-1.5 h-1.5 rounded-full ${i < gear ? 'bg-cyan-400' : 'bg-slate-700'}`}></div>
+            ))}
+          </div>
       </div>
 
       {/* Needle */}
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { CarStats, TournamentMatch, TournamentState, TrackId } from '../types';
+import { TOURNAMENT_RETUNE_POINTS } from '../constants';
+import { TRACKS, DEFAULT_TRACK_ID } from '../services/tracks';
+import {
+  TOURNAMENT_SIZES, BEST_OF_OPTIONS, PLAYER, isQualifying, matchWins, playerMatch, playerOpponent, retunePointsUsed
+} from '../services/tournament';
+
+interface TournamentBracketProps {
+  tournament: TournamentState | null;
+  stats: CarStats;
+  onCreate: (size: number, bestOf: number, trackId: TrackId) => void;
+  onRace: () => void;
+  onGarage: () => void;
+  onAbandon: () => void;
+  onExit: () => void;
+}
+
+const formatTime = (time: number | null) => (time === null ? 'DNF' : time.toFixed(3));
+
+const MatchCard: React.FC<{ t: TournamentState; match: TournamentMatch }> = ({ t, match }) => {
+  const wins = matchWins(match);
+  return (
+    <div className="w-40 bg-slate-800 border border-slate-600 rounded text-xs">
+      {[match.a, match.b].map((entrant, side) => (
+        <div
+          key={side}
+          className={`flex items-center gap-1 px-2 py-1 ${side === 0 ? 'border-b border-slate-700' : ''}
+            ${match.winner === entrant ? 'font-bold text-white' : match.winner !== null ? 'text-gray-500' : 'text-gray-300'}
+            ${entrant === PLAYER ? 'bg-cyan-900/40' : ''}`}
+        >
+          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: t.entrants[entrant].color }} />
+          <span className="flex-1 truncate">{t.entrants[entrant].name}</span>
+          <span className="font-mono">{wins[side]}</span>
+        </div>
+      ))}
+      {match.races.length > 0 && (
+        <div className="px-2 py-0.5 text-[9px] font-mono text-gray-500 truncate">
+          {match.races.map(r => `${formatTime(r.aTime)}/${formatTime(r.bTime)}`).join(' · ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TournamentBracket: React.FC<TournamentBracketProps> = ({ tournament: t, stats, onCreate, onRace, onGarage, onAbandon, onExit }) => {
+  const [size, setSize] = useState(TOURNAMENT_SIZES[0]);
+  const [bestOf, setBestOf] = useState(BEST_OF_OPTIONS[1]);
+  const [trackId, setTrackId] = useState<TrackId>(DEFAULT_TRACK_ID);
+
+  if (!t) {
+    return (
+      <div className="relative z-10 flex flex-col items-center justify-center h-full p-4">
+        <h2 className="text-3xl font-bold text-white mb-8 italic">NEW TOURNAMENT</h2>
+        <div className="flex flex-col gap-4 w-full max-w-sm">
+          {([
+            ['Entrants', TOURNAMENT_SIZES, size, setSize, (v: number) => `${v}`],
+            ['Match', BEST_OF_OPTIONS, bestOf, setBestOf, (v: number) => (v === 1 ? 'Single race' : `Best of ${v}`)],
+          ] as const).map(([label, options, value, set, format]) => (
+            <div key={label}>
+              <div className="text-[10px] text-gray-400 uppercase tracking-widest mb-1">{label}</div>
+              <div className="flex gap-2">
+                {options.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => set(option)}
+                    className={`flex-1 py-2 rounded font-bold uppercase text-xs ${value === option ? 'bg-amber-500 text-black' : 'bg-slate-800 text-gray-400 border border-slate-600'}`}
+                  >
+                    {format(option)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            {Object.values(TRACKS).map(track => (
+              <button
+                key={track.id}
+                onClick={() => setTrackId(track.id)}
+                className={`p-2 rounded text-xs font-black uppercase border ${trackId === track.id ? 'bg-cyan-900/60 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-gray-400'}`}
+              >
+                {track.distanceLabel}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => onCreate(size, bestOf, trackId)}
+            className="py-4 bg-amber-600 hover:bg-amber-500 text-white font-black text-xl rounded uppercase tracking-widest"
+          >
+            Enter
+          </button>
+          <button onClick={onExit} className="py-2 text-gray-400 hover:text-white text-xs uppercase tracking-widest">Back</button>
+        </div>
+      </div>
+    );
+  }
+
+  const rivalIndex = playerOpponent(t);
+  const match = isQualifying(t) ? null : playerMatch(t);
+  const totalRounds = Math.log2(t.size);
+  const retuneUsed = t.roundStats ? retunePointsUsed(t.roundStats, stats) : 0;
+  const raceLabel = isQualifying(t)
+    ? 'Qualifying Pass'
+    : match && `Race ${match.races.length + 1} vs ${t.entrants[rivalIndex!].name}`;
+
+  return (
+    <div className="relative z-10 flex flex-col h-full w-full p-4 animate-fade-in">
+      <div className="flex justify-between items-baseline mb-4">
+        <h2 className="text-2xl font-black italic text-amber-400">TOURNAMENT</h2>
+        <span className="text-xs text-gray-400 font-mono uppercase">
+          {t.size} entrants · {t.bestOf === 1 ? 'Single race' : `Best of ${t.bestOf}`} · {TRACKS[t.trackId].distanceLabel}
+          {t.champion === null && rivalIndex !== null && (
+            <button onClick={onAbandon} className="ml-3 text-red-400 hover:text-red-300 uppercase">Forfeit</button>
+          )}
+        </span>
+      </div>
+
+      {t.champion !== null && (
+        <div className={`text-center font-black uppercase tracking-widest mb-4 ${t.champion === PLAYER ? 'text-green-400 animate-pulse' : 'text-amber-300'}`}>
+          {t.champion === PLAYER ? 'You Win the Tournament!' : `${t.entrants[t.champion].name} Wins the Tournament`}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {isQualifying(t) ? (
+          <div className="max-w-sm mx-auto space-y-1">
+            <p className="text-xs text-gray-400 mb-2">One timed pass each seeds the bracket. You run yours alongside {t.entrants[rivalIndex!].name}.</p>
+            {t.entrants.map((entrant, i) => (
+              <div key={i} className={`flex items-center gap-2 px-2 py-1 rounded text-xs ${i === PLAYER ? 'bg-cyan-900/40 text-white' : 'bg-slate-800 text-gray-300'}`}>
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: entrant.color }} />
+                <span className="flex-1">{entrant.name}</span>
+                <span className="text-gray-500">{entrant.rival?.carName}</span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex gap-6 min-w-max">
+            {Array.from({ length: totalRounds }, (_, r) => (
+              <div key={r} className="flex flex-col justify-around gap-2">
+                <div className="text-[10px] text-gray-500 uppercase tracking-widest text-center">
+                  {r === totalRounds - 1 ? 'Final' : r === totalRounds - 2 ? 'Semis' : `Round ${r + 1}`}
+                </div>
+                {t.rounds[r]
+                  ? t.rounds[r].map((m, i) => <MatchCard key={i} t={t} match={m} />)
+                  : Array.from({ length: t.size / 2 ** (r + 1) }, (_, i) => (
+                      <div key={i} className="w-40 h-12 border border-dashed border-slate-700 rounded" />
+                    ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-3 mt-4 max-w-md w-full mx-auto">
+        {t.champion === null && rivalIndex !== null ? (
+          <>
+            <button
+              onClick={onGarage}
+              className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider text-xs"
+            >
+              Tune Car
+              {t.roundStats && <span className="block text-[10px] text-gray-400">{retuneUsed}/{TOURNAMENT_RETUNE_POINTS} pts moved</span>}
+            </button>
+            <button
+              onClick={onRace}
+              className="flex-[2] py-3 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded uppercase tracking-wider"
+            >
+              {raceLabel}
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={onAbandon}
+            className="flex-1 py-3 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded uppercase tracking-wider"
+          >
+            New Tournament
+          </button>
+        )}
+        <button
+          onClick={onExit}
+          className="px-4 py-3 bg-slate-800 hover:bg-slate-700 text-gray-400 font-bold rounded uppercase tracking-wider text-xs"
+        >
+          Menu
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TournamentBracket;
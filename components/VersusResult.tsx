@@ -0,0 +1,75 @@
+import React from 'react';
+import { DnfReason, Timeslip, VersusResult as VersusResultData } from '../types';
+import { TRACKS } from '../services/tracks';
+
+interface VersusResultProps {
+  result: VersusResultData;
+  onRematch: () => void;
+  onSetup: () => void;
+  setupLabel?: string;
+}
+
+const DNF_LABELS: Record<DnfReason, string> = {
+  CRASH: 'Wheelie Went Over',
+  BLOWN_ENGINE: 'Engine Blown',
+};
+
+const SLIP_COLORS = ['text-cyan-400', 'text-pink-500'];
+
+const SlipRow: React.FC<{ label: string; value: string; highlight?: string }> = ({ label, value, highlight }) => (
+  <div className="flex justify-between border-b border-dashed border-slate-600 py-1">
+    <span className="text-gray-400">{label}</span>
+    <span className={highlight ?? 'text-white'}>{value}</span>
+  </div>
+);
+
+const TimeslipCard: React.FC<{ slip: Timeslip; lane: number; won: boolean }> = ({ slip, lane, won }) => (
+  <div className={`flex-1 bg-slate-100/5 border-2 rounded p-4 font-mono text-xs ${won ? 'border-green-500' : 'border-slate-600'}`}>
+    <div className={`text-center font-black uppercase tracking-widest mb-1 ${SLIP_COLORS[lane]}`}>{slip.name}</div>
+    <div className={`text-center font-black uppercase mb-3 ${won ? 'text-green-400' : 'text-red-400'}`}>{won ? 'Win' : 'Loss'}</div>
+    <SlipRow
+      label="R/T"
+      value={`${slip.reactionTime.toFixed(3)}${slip.redLight ? ' RED' : ''}`}
+      highlight={slip.redLight ? 'text-red-500' : 'text-yellow-400'}
+    />
+    <SlipRow label="60 FT" value={slip.sixtyFootTime > 0 ? slip.sixtyFootTime.toFixed(3) : '--'} />
+    <SlipRow label="ET" value={slip.dnf ? 'DNF' : Number.isFinite(slip.et) ? slip.et.toFixed(3) : '--'} />
+    <SlipRow label="KM/H" value={slip.trapSpeed > 0 ? slip.trapSpeed.toFixed(1) : '--'} />
+    <SlipRow label="PERFECT SHIFTS" value={`${slip.perfectShifts}`} highlight="text-green-400" />
+    {slip.dnf && <div className="text-orange-500 font-bold uppercase text-center mt-2">{DNF_LABELS[slip.dnf]}</div>}
+  </div>
+);
+
+const VersusResult: React.FC<VersusResultProps> = ({ result, onRematch, onSetup, setupLabel = 'Change Cars' }) => (
+  <div className="absolute inset-0 z-50 bg-slate-900/90 backdrop-blur-md flex flex-col items-center justify-center p-6 animate-fade-in">
+    <h1 className={`text-5xl font-black italic uppercase mb-2 ${SLIP_COLORS[result.winner]}`}>
+      {result.slips[result.winner].name} Wins
+    </h1>
+    <div className="text-xs text-gray-500 uppercase tracking-widest mb-6">
+      {TRACKS[result.trackId].name} · {TRACKS[result.trackId].distanceLabel}
+    </div>
+
+    <div className="flex gap-4 w-full max-w-lg mb-8">
+      {result.slips.map((slip, lane) => (
+        <TimeslipCard key={lane} slip={slip} lane={lane} won={result.winner === lane} />
+      ))}
+    </div>
+
+    <div className="flex gap-4 w-full max-w-md">
+      <button
+        onClick={onSetup}
+        className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider transition-colors"
+      >
+        {setupLabel}
+      </button>
+      <button
+        onClick={onRematch}
+        className="flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider shadow-[0_0_15px_#06b6d4] transition-colors"
+      >
+        Rematch
+      </button>
+    </div>
+  </div>
+);
+
+export default VersusResult;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { SavedBuild, TrackId, TreeType, VersusEntry } from '../types';
+import { TOTAL_STAT_POINTS } from '../constants';
+import { TRACKS } from '../services/tracks';
+import { resolveEngine } from '../services/engineProfiles';
+
+interface VersusSetupProps {
+  builds: SavedBuild[]; // The current Garage car first, then the saved builds
+  trackId: TrackId;
+  treeType: TreeType;
+  onTrackChange: (trackId: TrackId) => void;
+  onTreeChange: (treeType: TreeType) => void;
+  onDeleteBuild: (id: string) => void;
+  onStart: (entries: [VersusEntry, VersusEntry]) => void;
+  onGarage: () => void;
+  onExit: () => void;
+}
+
+// Saved builds are always legal; the Garage car may still have points to spend or a blown engine
+const raceable = (build: SavedBuild) =>
+  build.stats.acceleration + build.stats.topSpeed + build.stats.grip === TOTAL_STAT_POINTS && (build.stats.engineDamage ?? 0) < 1;
+
+const VersusSetup: React.FC<VersusSetupProps> = ({
+  builds, trackId, treeType, onTrackChange, onTreeChange, onDeleteBuild, onStart, onGarage, onExit
+}) => {
+  const [picks, setPicks] = useState<[string, string]>([builds[0]?.id ?? '', builds[Math.min(1, builds.length - 1)]?.id ?? '']);
+  const picked = picks.map(id => builds.find(b => b.id === id));
+  const ready = picked.every(b => b && raceable(b));
+
+  const start = () => {
+    if (!ready) return;
+    onStart(picked.map((build, i) => ({ name: `Player ${i + 1}`, stats: build!.stats, design: build!.design })) as [VersusEntry, VersusEntry]);
+  };
+
+  return (
+    <div className="relative z-10 flex flex-col h-full w-full max-w-2xl mx-auto p-4 animate-fade-in">
+      <h2 className="text-3xl font-bold text-white mb-4 italic text-center">LOCAL VERSUS</h2>
+
+      <div className="grid grid-cols-2 gap-4 flex-1 overflow-y-auto">
+        {[0, 1].map(player => (
+          <div key={player}>
+            <div className={`text-sm font-black uppercase tracking-widest mb-2 ${player === 0 ? 'text-cyan-400' : 'text-pink-500'}`}>
+              Player {player + 1}
+            </div>
+            <div className="space-y-2">
+              {builds.map(build => {
+                const selected = picks[player] === build.id;
+                return (
+                  <div
+                    key={build.id}
+                    onClick={() => setPicks(prev => (player === 0 ? [build.id, prev[1]] : [prev[0], build.id]))}
+                    className={`p-2 rounded border cursor-pointer transition-colors ${selected ? 'bg-slate-700 border-white' : 'bg-slate-800 border-slate-600 hover:border-slate-400'} ${raceable(build) ? '' : 'opacity-50'}`}
+                  >
+                    {build.design && <img src={build.design.imageData} className="w-full h-10 object-contain mb-1" alt={build.name} />}
+                    <div className="flex justify-between items-center">
+                      <span className="text-xs font-bold text-white truncate">{build.name}</span>
+                      {build.id !== builds[0].id && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onDeleteBuild(build.id); }}
+                          className="text-[10px] text-red-400 hover:text-red-300 uppercase"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                    <div className="text-[10px] text-gray-400 font-mono">
+                      {build.stats.acceleration}/{build.stats.topSpeed}/{build.stats.grip} · {resolveEngine(build.stats).name}
+                      {(build.stats.nitrous?.bottleSize ?? 0) > 0 && ` · ${build.stats.nitrous!.shotSize} HP N2O`}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      {builds.length < 2 && (
+        <p className="text-xs text-gray-500 text-center mt-2">Save builds in the Garage to give each player a different car.</p>
+      )}
+
+      <div className="grid grid-cols-4 gap-2 mt-4">
+        {Object.values(TRACKS).map(track => (
+          <button
+            key={track.id}
+            onClick={() => onTrackChange(track.id)}
+            className={`p-2 rounded text-xs font-black uppercase border ${trackId === track.id ? 'bg-cyan-900/60 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-gray-400'}`}
+          >
+            {track.distanceLabel}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {(['PRO', 'SPORTSMAN'] as TreeType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => onTreeChange(type)}
+            className={`flex-1 py-2 rounded font-bold uppercase tracking-wider text-xs ${treeType === type ? 'bg-amber-500 text-black' : 'bg-slate-800 text-gray-400 border border-slate-600'}`}
+          >
+            {type === 'PRO' ? 'Pro Tree' : 'Sportsman Tree'}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500 text-center mt-2">
+        Touch: each player uses their half of the dashboard. Keyboard: Player 1 A (rev/shift) and S (nitrous), Player 2 L and K. Enter stages both cars.
+      </p>
+
+      <div className="flex gap-4 mt-4">
+        <button onClick={onExit} className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider">
+          Menu
+        </button>
+        <button onClick={onGarage} className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded uppercase tracking-wider">
+          Garage
+        </button>
+        <button
+          onClick={start}
+          disabled={!ready}
+          className="flex-[2] py-3 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded uppercase tracking-wider disabled:bg-gray-800 disabled:text-gray-500"
+        >
+          Race
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VersusSetup;
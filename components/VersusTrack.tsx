@@ -0,0 +1,295 @@
+import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { CarDesign, Timeslip, TrackId, TreeType, VersusEntry, VersusResult } from '../types';
+import { CarPhysicsState, shiftUp as shiftCarUp, activateNitrous, isCarDone } from '../services/physicsEngine';
+import {
+  RaceLane, RaceSession, createRaceSession, launchLane, leaveBurnoutBox, stepRaceSession, isRaceOver, didPlayerWin,
+  createFrameClock, runFrameTicks, isTreeShowing, timeslip, SHIFT_FEEDBACK
+} from '../services/raceSession';
+import { optimalTireTemp, tireGripFactor } from '../services/tires';
+import { gearCount } from '../services/gearbox';
+import { resolveEngine } from '../services/engineProfiles';
+import { randomSeed } from '../services/rng';
+import Tachometer from './Tachometer';
+import ChristmasTree from './ChristmasTree';
+
+interface VersusTrackProps {
+  entries: [VersusEntry, VersusEntry];
+  treeType: TreeType;
+  trackId: TrackId;
+  onFinish: (result: VersusResult) => void;
+}
+
+// Player 1 on the left of the keyboard, player 2 on the right
+const LANE_KEYS = [
+  { pedal: 'KeyA', nitrous: 'KeyS', label: 'A / S' },
+  { pedal: 'KeyL', nitrous: 'KeyK', label: 'L / K' },
+];
+const LANE_COLORS = ['#00f0ff', '#ff0055'];
+
+// Side view of one car in its lane, painted or the stock body
+const LaneCar: React.FC<{ car: CarPhysicsState; design?: CarDesign; color: string; label: string }> = ({ car, design, color, label }) => {
+  const spin = `${Math.max(0.05, 10 / Math.max(1, car.speed))}s`;
+  return design ? (
+    <div className="relative w-40 h-20" style={{ transform: `rotate(${-car.pitch}rad)`, transformOrigin: `${design.wheelPositions[0].x}% ${design.wheelPositions[0].y}%` }}>
+      <img src={design.imageData} className="absolute w-full h-auto drop-shadow-xl" alt={label} />
+      {design.wheelPositions.map((pos, i) => (
+        <div key={i} className="absolute w-10 h-10" style={{ left: `${pos.x}%`, top: `${pos.y}%`, transform: 'translate(-50%, -50%)' }}>
+          <div className="w-full h-full rounded-full bg-black border-4 border-gray-400 animate-spin" style={{ animationDuration: spin }} />
+        </div>
+      ))}
+      {(car.wheelSpin || (car.inBurnout && car.throttle)) && <div className="absolute bottom-0 right-0 w-16 h-10 bg-white/40 blur-lg animate-pulse" />}
+    </div>
+  ) : (
+    <div className="relative w-36 h-10 rounded-tr-full rounded-tl-lg skew-x-[-15deg] flex items-center justify-center" style={{ backgroundColor: color, transform: `rotate(${-car.pitch}rad)`, transformOrigin: '15% 100%' }}>
+      <div className="w-9 h-9 rounded-full bg-black border-4 border-gray-700 absolute -bottom-4 left-4 animate-spin" style={{ animationDuration: spin }} />
+      <div className="w-10 h-10 rounded-full bg-black border-4 border-gray-700 absolute -bottom-4 right-4 animate-spin" style={{ animationDuration: spin }} />
+      <span className="text-xs text-black font-black italic skew-x-[15deg]">{label}</span>
+      {(car.wheelSpin || (car.inBurnout && car.throttle)) && <div className="absolute -bottom-2 left-4 w-14 h-8 bg-white/30 blur-lg animate-pulse" />}
+    </div>
+  );
+};
+
+const VersusTrack: React.FC<VersusTrackProps> = ({ entries, treeType, trackId, onFinish }) => {
+  const [session] = useState<RaceSession>(() => createRaceSession({
+    playerStats: entries[0].stats,
+    opponentStats: entries[1].stats,
+    opponentHuman: true,
+    treeType,
+    trackId,
+    burnout: true,
+    seed: randomSeed(),
+  }));
+  const lanes: [RaceLane, RaceLane] = [session.player, session.enemy];
+  const trackLength = session.track.lengthMeters;
+
+  const gameState = useRef<'BURNOUT' | 'STAGING' | 'RACING' | 'FINISHED'>('BURNOUT');
+  const requestRef = useRef<number>();
+  const clockRef = useRef(createFrameClock());
+  const perfectShifts = useRef([0, 0]);
+  const trapSpeeds = useRef([0, 0]);
+  // Pending finish and feedback timers, cleared if the race is left early
+  const finishTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const feedbackTimersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  // Cars are read straight from the session; this just redraws once per frame
+  const [, setFrame] = useState(0);
+  const [feedback, setFeedback] = useState<(string | null)[]>([null, null]);
+
+  const showFeedback = (lane: number, text: string) => {
+    setFeedback(prev => prev.map((f, i) => (i === lane ? text : f)));
+    const timer = setTimeout(() => {
+      feedbackTimersRef.current.delete(timer);
+      setFeedback(prev => prev.map((f, i) => (i === lane && f === text ? null : f)));
+    }, 800);
+    feedbackTimersRef.current.add(timer);
+  };
+
+  const simulateTick = () => {
+    const wasOut = lanes.map(({ car }) => car.dnf !== null);
+    stepRaceSession(session);
+    lanes.forEach(({ car }, i) => {
+      if (!wasOut[i] && car.dnf) showFeedback(i, car.dnf === 'CRASH' ? 'CRASHED!' : 'ENGINE BLOWN!');
+      if (car.finished && trapSpeeds.current[i] === 0) trapSpeeds.current[i] = car.speed * 3.6;
+    });
+    if (gameState.current === 'STAGING' && session.tick > session.tree.greenTick) gameState.current = 'RACING';
+  };
+
+  const endRace = () => {
+    gameState.current = 'FINISHED';
+    if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    finishTimerRef.current = setTimeout(() => {
+      onFinish({
+        slips: [0, 1].map(i =>
+          timeslip(entries[i].name, lanes[i].car, perfectShifts.current[i], trapSpeeds.current[i])) as [Timeslip, Timeslip],
+        winner: didPlayerWin(session) ? 0 : 1,
+        trackId: session.track.id,
+      });
+    }, 1000);
+  };
+
+  const animate = useCallback((now: number) => {
+    if (gameState.current === 'FINISHED') return;
+    runFrameTicks(clockRef.current, now, () => {
+      simulateTick();
+      if (!isRaceOver(session)) return false;
+      endRace();
+      return true;
+    });
+    setFrame(f => f + 1);
+    if (gameState.current !== 'FINISHED') requestRef.current = requestAnimationFrame(animate);
+  }, [session]);
+
+  useEffect(() => {
+    requestRef.current = requestAnimationFrame(animate);
+    return () => {
+      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      if (finishTimerRef.current) clearTimeout(finishTimerRef.current);
+      feedbackTimersRef.current.forEach(clearTimeout);
+    };
+  }, [animate]);
+
+  // --- Controls (same scheme as RaceTrack, once per lane) ---
+  const stage = () => {
+    if (gameState.current !== 'BURNOUT') return;
+    leaveBurnoutBox(session);
+    gameState.current = 'STAGING';
+  };
+
+  const press = (i: number) => {
+    const { car } = lanes[i];
+    if (gameState.current === 'FINISHED' || isCarDone(car)) return;
+    if (!car.launched) {
+      car.throttle = true;
+      return;
+    }
+    const grade = shiftCarUp(car, entries[i].stats);
+    if (!grade) return;
+    if (grade === 'PERFECT') perfectShifts.current[i]++;
+    showFeedback(i, SHIFT_FEEDBACK[grade]);
+  };
+
+  const release = (i: number) => {
+    const { car } = lanes[i];
+    if (gameState.current === 'BURNOUT') {
+      car.throttle = false;
+      return;
+    }
+    if (!car.launched && car.throttle) {
+      launchLane(session, lanes[i]);
+      showFeedback(i, car.redLight ? 'RED LIGHT!' : `R/T ${car.reactionTime.toFixed(3)}`);
+    }
+  };
+
+  const fireNitrous = (i: number) => {
+    if (activateNitrous(lanes[i].car, session.tick)) showFeedback(i, 'NITROUS!');
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      if (e.code === 'Enter') stage();
+      LANE_KEYS.forEach((keys, i) => {
+        if (e.code === keys.pedal) press(i);
+        if (e.code === keys.nitrous) fireNitrous(i);
+      });
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      LANE_KEYS.forEach((keys, i) => {
+        if (e.code === keys.pedal) release(i);
+      });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, []);
+
+  // The camera follows whoever is ahead; the trailing car drops back on screen
+  const camera = Math.max(lanes[0].car.distance, lanes[1].car.distance);
+
+  return (
+    <div className="relative w-full h-full bg-slate-900 overflow-hidden select-none">
+      {/* Scene: two lanes, the leader pinned near the left edge */}
+      <div className="absolute inset-x-0 top-0 h-[45%] bg-gradient-to-b from-black via-indigo-950 to-slate-900">
+        <div className="absolute top-4 left-4 right-4 h-3 bg-gray-800 rounded-full z-40 overflow-hidden border border-gray-600">
+          {lanes.map(({ car }, i) => (
+            <div key={i} className="absolute top-0 bottom-0 w-2" style={{ left: `${Math.min(100, (car.distance / trackLength) * 100)}%`, backgroundColor: LANE_COLORS[i] }} />
+          ))}
+        </div>
+        {lanes.map(({ car }, i) => (
+          <div key={i} className={`absolute inset-x-0 h-[35%] bg-gray-800 border-cyan-500/30 overflow-hidden ${i === 0 ? 'top-[25%] border-b-2' : 'top-[62%]'}`}>
+            {/* Finish line */}
+            <div
+              className="absolute top-0 bottom-0 w-6 bg-white opacity-90"
+              style={{
+                left: `calc(35% + ${(trackLength - camera) * 20}px)`,
+                backgroundImage: 'linear-gradient(45deg, #000 25%, transparent 25%, transparent 75%, #000 75%, #000)',
+                backgroundSize: '12px 12px',
+              }}
+            />
+            <div className="absolute bottom-1" style={{ left: `calc(35% - 10rem + ${(car.distance - camera) * 20}px)` }}>
+              <LaneCar car={car} design={entries[i].design} color={LANE_COLORS[i]} label={`P${i + 1}`} />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isTreeShowing(session) && (
+        <ChristmasTree tree={session.tree} tick={session.tick} cars={[lanes[0].car, lanes[1].car]} />
+      )}
+
+      {session.phase === 'BURNOUT' && (
+        <div className="absolute top-10 left-1/2 -translate-x-1/2 z-[60] flex flex-col items-center gap-2">
+          <span className="text-xs text-slate-300 font-bold tracking-widest uppercase">Burnout Box</span>
+          <button
+            onClick={stage}
+            className="px-6 py-2 bg-yellow-500 hover:bg-yellow-400 text-black font-black uppercase tracking-wider rounded shadow-[0_0_15px_rgba(234,179,8,0.6)]"
+          >
+            Stage Both
+          </button>
+        </div>
+      )}
+
+      {/* Split dashboards: each half is that player's touch zone */}
+      <div className="absolute bottom-0 inset-x-0 h-[55%] flex border-t-4 border-slate-700">
+        {lanes.map(({ car }, i) => {
+          const stats = entries[i].stats;
+          const engine = resolveEngine(stats);
+          const tireGrip = tireGripFactor(stats, car.tireTemp);
+          const bottle = stats.nitrous?.bottleSize ?? 0;
+          return (
+            <div
+              key={i}
+              className={`relative flex-1 flex flex-col items-center justify-center gap-2 p-2 touch-none ${i === 0 ? 'border-r-2 border-slate-700' : ''}`}
+              style={{ background: 'radial-gradient(circle at center, #1e293b 0%, #020617 100%)' }}
+              onPointerDown={() => press(i)}
+              onPointerUp={() => release(i)}
+              onPointerCancel={() => release(i)}
+            >
+              <div className="flex items-center gap-2 text-xs font-black uppercase tracking-widest" style={{ color: LANE_COLORS[i] }}>
+                {entries[i].name}
+              </div>
+              <div className="h-8 text-2xl md:text-4xl font-black italic pointer-events-none">
+                {feedback[i] && (
+                  <span className={feedback[i] === 'PERFECT!' ? 'text-green-400' : feedback[i] === 'LATE!' || feedback[i] === 'RED LIGHT!' ? 'text-red-500' : 'text-yellow-400'}>
+                    {feedback[i]}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 pointer-events-none">
+                <span className="text-4xl md:text-6xl font-black text-white font-mono w-12 text-center">{car.gear}</span>
+                <div className="transform scale-75 md:scale-90">
+                  <Tachometer rpm={car.rpm} gear={car.gear} gearCount={gearCount(stats)} engine={engine} />
+                </div>
+                <div className="flex flex-col items-center">
+                  <span className="text-3xl md:text-5xl font-black font-mono" style={{ color: LANE_COLORS[i] }}>{(car.speed * 3.6).toFixed(0)}</span>
+                  <span className="text-[10px] text-slate-500 font-bold">KM/H</span>
+                  <span className={`text-[10px] font-mono mt-1 ${tireGrip >= 1 ? 'text-green-400' : car.tireTemp > optimalTireTemp(stats) ? 'text-red-400' : 'text-sky-400'}`}>
+                    {Math.round(car.tireTemp)}°C tires
+                  </span>
+                </div>
+              </div>
+              {bottle > 0 && (
+                <button
+                  onPointerDown={(e) => { e.stopPropagation(); fireNitrous(i); }}
+                  onPointerUp={(e) => e.stopPropagation()}
+                  disabled={!car.launched || car.nitrousActivatedAt !== null}
+                  className="px-4 py-1 rounded-full bg-fuchsia-700 border-2 border-fuchsia-400 text-white text-xs font-black disabled:opacity-30"
+                >
+                  N2O {Math.round((car.nitrousRemaining / bottle) * 100)}%
+                </button>
+              )}
+              <span className="absolute bottom-1 text-[10px] text-slate-600 font-bold tracking-[0.2em] pointer-events-none">
+                {car.launched ? 'TAP TO SHIFT' : car.inBurnout ? 'HOLD TO BURN OUT' : 'HOLD TO REV - RELEASE ON GREEN'} · KEYS {LANE_KEYS[i].label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersusTrack;
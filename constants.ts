@@ -1,4 +1,3 @@
-export const TRACK_LENGTH_METERS = 402; // 1/4 mile
 export const FPS = 60;
 export const DT = 1 / FPS;
 
@@ -7,13 +6,105 @@ export const TOTAL_STAT_POINTS = 18; // Total points to distribute
 export const MIN_STAT = 1;
 export const MAX_STAT = 10;
 
+// Progression
+export const MAX_LEVEL = 10;
+export const LEVEL_XP_STEP = 250;        // Level n -> n+1 costs n * step XP
+export const XP_PER_RACE = 20;           // Finishing a race at all
+export const XP_PER_WIN = 100;
+export const XP_PER_PERFECT_SHIFT = 15;
+export const XP_PER_MARGIN_SECOND = 100; // Bonus per second of winning margin...
+export const XP_MARGIN_CAP = 1.0;        // ...counted up to this many seconds
+export const STREAK_LEVEL_SHIFT = 0.5;   // Matchmaking levels per race of win/loss streak
+export const MAX_STREAK_SHIFT = 3;       // Streak races that count towards matchmaking
+
+// Career
+export const CAREER_START_CASH = 500;
+export const CAREER_BOSS_MULTIPLIER = 3;  // Boss purse and reputation vs. a regular rung
+export const CAREER_BOSS_ENTRY_SHARE = 0.5; // Boss buy-in as a share of the tier purse
+export const CAREER_REMATCH_SHARE = 0.25; // Purse paid for beating a rival again
+export const CAREER_LOSS_REP_SHARE = 0.5; // Reputation lost on a loss, as a share of a win's
+
+// Tournament
+export const TOURNAMENT_RETUNE_POINTS = 2; // Stat points the player may move between rounds
+
+// Online
+export const NET_SEND_INTERVAL = 2;       // Ticks between car state messages (30 per second)
+export const NET_INTERPOLATION_DELAY = 6; // Ticks the remote car is drawn behind its latest state
+export const NET_MAX_EXTRAPOLATION = 15;  // Ticks a late remote car keeps coasting before it holds
+export const NET_MAX_INPUTS = 2000;       // Longest input log the relay will replay
+export const NET_MIN_REACTION_TIME = 0.1; // Seconds; the relay throws out quicker launches as timed off the known seed
+export const NET_MAX_RACE_TICKS = Math.round(180 / DT); // Last input tick the relay will replay: three minutes from the burnout box
+
 // Physics Config
-export const GEAR_RATIOS = [3.5, 2.5, 1.8, 1.3, 1.0, 0.8]; // 6 Gears
+export const GEAR_RATIOS = [3.5, 2.5, 1.8, 1.3, 1.0, 0.8]; // Stock 6 Gears
+export const MIN_GEARS = 4;
+export const MAX_GEARS = 8;
+export const MIN_GEAR_RATIO = 0.5;
+export const MAX_GEAR_RATIO = 4.5;
+export const MAX_FINAL_DRIVE = 5.0; // Shortest allowed; the tallest is set by the Top Speed stat
+export const WHEEL_RADIUS = 0.33; // meters
 export const REDLINE = 8000;
 export const OPTIMAL_SHIFT_MIN = 7000;
 export const OPTIMAL_SHIFT_MAX = 7800;
 export const IDLE_RPM = 1000;
 
+// Christmas Tree (seconds)
+export const PRE_STAGE_DELAY = 0.6;       // Pre-stage bulbs light as the cars roll in
+export const STAGE_DELAY = 1.4;           // Both cars fully staged
+export const TREE_RANDOM_DELAY_MAX = 1.2; // Random hold before the tree starts, so it can't be anticipated
+export const PRO_TREE_GREEN_DELAY = 0.4;  // Pro tree: all ambers together, green 0.4s later
+export const SPORTSMAN_TREE_STEP = 0.5;   // Sportsman tree: ambers and green 0.5s apart
+
+// Launch Control
+export const LAUNCH_REV_RATE = 3000;   // rpm/s gained while holding the throttle on the line
+export const LAUNCH_REV_DECAY = 4000;  // rpm/s lost when off the throttle
+export const LAUNCH_BOG_RPM = 3000;    // Dumping the clutch below this bogs the engine
+export const LAUNCH_SHOCK_FORCE = 4;   // N of extra drive force per rpm above idle at the clutch dump
+export const LAUNCH_SHOCK_DECAY = 0.4; // Seconds for the clutch-dump shock to fade
+export const AI_LAUNCH_RPM = 4500;     // Launch RPM the AI aims for
+export const AI_PEDAL_GRIP = 0.95;     // Share of the traction limit an AI puts down while feathering the throttle
+export const SIXTY_FOOT_METERS = 18.288;
+
+// Nitrous
+export const NITROUS_BOTTLE_SIZES = [0, 2.5, 5, 10]; // lb, 0 = no system
+export const NITROUS_SHOT_SIZES = [50, 100, 150, 200]; // hp
+export const NITROUS_LB_PER_HP_SECOND = 0.005; // A 100 hp shot drains 0.5 lb/s
+export const NITROUS_TORQUE_PER_HP = 1.0; // Added engine torque per hp of shot
+export const NITROUS_BOTTLE_KG_PER_LB = 1.3; // Empty bottle + brackets weight per lb of capacity
+export const NITROUS_GAS_KG_PER_LB = 0.45;
+
+// Chassis (stock drag car; painted designs measure their own)
+export const DEFAULT_WHEELBASE = 2.7; // meters
+export const DEFAULT_CG_HEIGHT = 0.5; // meters above the ground
+export const DEFAULT_REAR_WEIGHT = 0.6; // Static share of weight on the rear tires
+export const DESIGN_CANVAS_LENGTH_M = 5.0; // The designer canvas spans 5 m of car
+export const BODY_MASS_SHARE = 0.5; // Share of the car's mass in the painted body (the rest is running gear)
+export const MIN_WHEELBASE = 1.2;
+export const WHEELIE_CRASH_PITCH = 0.6; // rad (~35°); past this the car goes over
+
+// Tires (°C)
+export const TIRE_OPTIMAL_BASE = 50;        // Optimal temp for grip stat 0; each point adds TIRE_OPTIMAL_PER_GRIP
+export const TIRE_OPTIMAL_PER_GRIP = 5;     // Stickier compounds need more heat (grip 10 = 100°C)
+export const TIRE_WINDOW = 12;              // Full grip from optimal up to optimal + window
+export const TIRE_COLD_RANGE = 60;          // Degrees below optimal for the full cold penalty
+export const TIRE_COLD_PENALTY_MAX = 0.35;  // Grip lost by stone-cold slicks (street tires lose far less)
+export const TIRE_OVERHEAT_LOSS = 0.01;     // Grip lost per degree above the window
+export const TIRE_BURNOUT_HEAT_RATE = 20;   // °C/s while spinning in the water box
+export const TIRE_SPIN_HEAT_RATE = 30;      // °C/s from wheelspin on the track
+export const TIRE_COOL_RATE = 0.04;         // Share of the gap to ambient lost per second, standing still
+export const TIRE_AIRFLOW_COOLING = 0.002;  // Extra cooling per m/s of speed
+
+// Engine Wear (damage runs 0 = fresh to 1 = blown)
+export const LIMITER_DAMAGE_PER_SECOND = 0.1; // Bouncing off the rev limiter
+export const LUG_SHIFT_DAMAGE = 0.03;         // EARLY shift: engine lugs in the next gear
+export const MONEY_SHIFT_DAMAGE = 0.08;       // LATE shift: next gear banged in off the limiter
+export const DAMAGE_TORQUE_LOSS = 0.4;        // Torque lost at full damage
+
+// Aero
+export const DEFAULT_CD = 0.32;
+export const DEFAULT_FRONTAL_AREA = 2.2; // m^2
+export const CAR_WIDTH_M = 1.8; // Painted designs are side views; width is assumed
+
 // Base Physics
 export const BASE_HORSEPOWER = 250;
 export const BASE_WEIGHT = 1200; // kg
@@ -0,0 +1,56 @@
+// Local stand-in for an OpenAI-compatible LLM endpoint, answering from the mock fixtures.
+//
+// Usage:
+//   npm run mock-llm -- --port 8787
+//   LLM_PROVIDER=openai LLM_BASE_URL=http://localhost:8787/v1 npm run dev
+//
+// Options:
+//   --port N      Port to listen on (default 8787)
+//   --delay MS    Wait before answering, to exercise client timeouts (default 0)
+//   --garbage     Answer with content that fails schema validation
+import { createServer } from 'node:http';
+import { mockResponse } from '../services/llmProviders';
+
+const args = process.argv.slice(2);
+const option = (flag: string, fallback: number) => {
+  const i = args.indexOf(flag);
+  return i >= 0 ? Number(args[i + 1]) : fallback;
+};
+const port = option('--port', 8787);
+const delay = option('--delay', 0);
+const garbage = args.includes('--garbage');
+
+const server = createServer((req, res) => {
+  // Browsers call this cross-origin from the dev server
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method !== 'POST' || !req.url?.endsWith('/chat/completions')) {
+    res.writeHead(404).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    setTimeout(() => {
+      try {
+        const { messages } = JSON.parse(body);
+        const task = /Task: (\w+)/.exec(messages[0].content)?.[1] ?? '';
+        const prompt = messages[messages.length - 1].content;
+        const content = garbage ? '{"oops": true}' : JSON.stringify(mockResponse(task, prompt));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] }));
+        console.log(`mock-llm: ${task}`);
+      } catch (error) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: String(error) }));
+      }
+    }, delay);
+  });
+});
+
+server.listen(port, () => console.log(`mock-llm: listening on http://localhost:${port}/v1`));
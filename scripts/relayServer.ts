@@ -0,0 +1,280 @@
+// Reference relay for online races: pairs two players by lobby code, starts their trees
+// together, forwards car state between them, and decides each race by re-running both
+// passes from the players' inputs, so a client can't report a time it didn't drive.
+//
+// Usage:
+//   npm run relay -- --port 8790
+//   RELAY_URL=ws://localhost:8790 npm run dev
+//
+// Options:
+//   --port N             Port to listen on (default 8790)
+//   --result-timeout S   Seconds to wait for the second pass after the first (default 60)
+import { WebSocketServer, WebSocket } from 'ws';
+import { CarStats, RaceInput, RaceInputKind, Timeslip, TrackId, TreeType, VersusEntry } from '../types';
+import {
+  TOTAL_STAT_POINTS, MIN_STAT, MAX_STAT, MIN_GEARS, MAX_GEARS, NET_MAX_INPUTS, NET_MIN_REACTION_TIME, NET_MAX_RACE_TICKS, NITROUS_BOTTLE_SIZES, NITROUS_SHOT_SIZES
+} from '../constants';
+import {
+  ClientMessage, ServerMessage, LOBBY_CODE_LENGTH, LOBBY_CODE_ALPHABET
+} from '../services/netProtocol';
+import { ReplayedRun, replayRaceInputs } from '../services/raceSimulator';
+import { isWinner } from '../services/physicsEngine';
+import { timeslip } from '../services/raceSession';
+import { clampGearbox } from '../services/gearbox';
+import { ENGINE_PROFILES } from '../services/engineProfiles';
+import { clampChassis } from '../services/chassis';
+import { clampAero } from '../services/aero';
+import { randomSeed } from '../services/rng';
+import { TRACKS, DEFAULT_TRACK_ID } from '../services/tracks';
+
+const args = process.argv.slice(2);
+const option = (flag: string, fallback: number) => {
+  const i = args.indexOf(flag);
+  return i >= 0 ? Number(args[i + 1]) : fallback;
+};
+const port = option('--port', 8790);
+const resultTimeout = option('--result-timeout', 60) * 1000;
+
+interface Seat {
+  socket: WebSocket | null; // Null once they've disconnected
+  player: VersusEntry;
+  staged: boolean;
+  run: ReplayedRun | null | undefined; // Undefined until they finish; null = no valid pass
+  rematch: boolean;
+}
+
+interface Lobby {
+  code: string;
+  trackId: TrackId;
+  treeType: TreeType;
+  seed: number;
+  seats: Seat[];
+  racing: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const INPUT_KINDS: RaceInputKind[] = ['THROTTLE_ON', 'THROTTLE_OFF', 'STAGE', 'LAUNCH', 'SHIFT', 'NITROUS'];
+
+const lobbies = new Map<string, Lobby>();
+const lobbyOf = new Map<WebSocket, Lobby>();
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const newCode = (): string => {
+  let code = '';
+  do {
+    code = Array.from({ length: LOBBY_CODE_LENGTH }, () =>
+      LOBBY_CODE_ALPHABET[Math.floor(Math.random() * LOBBY_CODE_ALPHABET.length)]).join('');
+  } while (lobbies.has(code));
+  return code;
+};
+
+const finite = (values: unknown[]) => values.every(v => typeof v === 'number' && Number.isFinite(v));
+
+// Only legal builds race. Garage picks have to be real options; the gearbox and the
+// designer's measurements are forced into the range the game itself can produce.
+const legalBuild = (stats: CarStats): CarStats | null => {
+  const points = [stats?.acceleration, stats?.topSpeed, stats?.grip];
+  if (!points.every(p => Number.isInteger(p) && p >= MIN_STAT && p <= MAX_STAT)) return null;
+  if (stats.acceleration + stats.topSpeed + stats.grip !== TOTAL_STAT_POINTS) return null;
+  if (!finite([stats.engineDamage ?? 0]) || (stats.engineDamage ?? 0) < 0 || (stats.engineDamage ?? 0) >= 1) return null;
+  if (stats.engine !== undefined && !Object.hasOwn(ENGINE_PROFILES, stats.engine)) return null;
+  const { nitrous, gearbox, chassis, aero } = stats;
+  if (nitrous && !(NITROUS_BOTTLE_SIZES.includes(nitrous.bottleSize) && NITROUS_SHOT_SIZES.includes(nitrous.shotSize))) return null;
+  if (gearbox && !(Array.isArray(gearbox.ratios) && gearbox.ratios.length >= MIN_GEARS && gearbox.ratios.length <= MAX_GEARS
+    && finite([...gearbox.ratios, gearbox.finalDrive]))) return null;
+  if (chassis && !finite([chassis.wheelbase, chassis.cgHeight, chassis.cgToRearAxle])) return null;
+  if (aero && !finite([aero.cd, aero.cl, aero.frontalArea, aero.noseSlope, aero.wingArea])) return null;
+  return {
+    acceleration: stats.acceleration,
+    topSpeed: stats.topSpeed,
+    grip: stats.grip,
+    engineDamage: stats.engineDamage,
+    engine: stats.engine,
+    nitrous: nitrous && { bottleSize: nitrous.bottleSize, shotSize: nitrous.shotSize },
+    gearbox: gearbox && clampGearbox(gearbox, stats.topSpeed),
+    chassis: chassis && clampChassis(chassis),
+    aero: aero && clampAero(aero),
+  };
+};
+
+// In tick order, and short enough that replaying them can't stall the relay
+const validInputs = (inputs: RaceInput[]): boolean =>
+  Array.isArray(inputs) && inputs.length <= NET_MAX_INPUTS &&
+  inputs.every((input, i) =>
+    Number.isInteger(input?.tick) && input.tick >= 0 && input.tick <= NET_MAX_RACE_TICKS &&
+    (i === 0 || input.tick >= inputs[i - 1].tick) && INPUT_KINDS.includes(input.kind));
+
+// Null when the pass can't be verified, including a replay that throws on odd data. Both
+// clients know the seed, so a launch faster than anyone can react was timed off the schedule.
+const verifyRun = (seat: Seat, lobby: Lobby, inputs: RaceInput[]): ReplayedRun | null => {
+  if (!validInputs(inputs)) return null;
+  try {
+    const run = replayRaceInputs({ stats: seat.player.stats, inputs, treeType: lobby.treeType, trackId: lobby.trackId, seed: lobby.seed });
+    if (run.car.launched && !run.car.redLight && run.car.reactionTime < NET_MIN_REACTION_TIME) {
+      console.log(`relay: ${lobby.code} ${seat.player.name} launched ${run.car.reactionTime.toFixed(3)}s after green, not a human reaction`);
+      return null;
+    }
+    return run;
+  } catch (error) {
+    console.error(`relay: ${lobby.code} replay failed`, error);
+    return null;
+  }
+};
+
+const startRace = (lobby: Lobby) => {
+  lobby.seed = randomSeed();
+  lobby.racing = true;
+  lobby.seats.forEach(seat => Object.assign(seat, { staged: false, run: undefined, rematch: false }));
+  lobby.seats.forEach((seat, i) => send(seat.socket, {
+    type: 'start', seed: lobby.seed, trackId: lobby.trackId, treeType: lobby.treeType, opponent: lobby.seats[1 - i].player,
+  }));
+  console.log(`relay: ${lobby.code} racing`);
+};
+
+// Both trees start together once everyone still here is staged
+const startTree = (lobby: Lobby) => {
+  if (lobby.seats.every(s => s.staged || !s.socket)) lobby.seats.forEach(s => send(s.socket, { type: 'tree' }));
+};
+
+const seatSlip = ({ player, run }: Seat): Timeslip => run
+  ? timeslip(player.name, run.car, run.perfectShifts, run.trapSpeed)
+  : { name: player.name, reactionTime: 0, redLight: false, sixtyFootTime: 0, et: Infinity, trapSpeed: 0, perfectShifts: 0, dnf: null };
+
+// A pass that couldn't be verified (or was never sent) loses to any pass that was
+const beats = (run: ReplayedRun | null | undefined, rival: ReplayedRun | null | undefined): boolean =>
+  !!run && (!rival || isWinner(run.car, rival.car));
+
+// Sends the result once both passes are in (or given up on), then drops anyone who left
+const finishRace = (lobby: Lobby) => {
+  if (!lobby.racing || lobby.seats.some(seat => seat.run === undefined)) return;
+  if (lobby.timer) clearTimeout(lobby.timer);
+  lobby.timer = null;
+  lobby.racing = false;
+
+  const slips = lobby.seats.map(seatSlip);
+  lobby.seats.forEach((seat, i) => send(seat.socket, {
+    type: 'result',
+    result: {
+      slips: [slips[i], slips[1 - i]],
+      winner: beats(seat.run, lobby.seats[1 - i].run) ? 0 : 1,
+      trackId: lobby.trackId,
+    },
+  }));
+  console.log(`relay: ${lobby.code} ${slips.map(s => `${s.name} ${Number.isFinite(s.et) ? s.et.toFixed(3) : 'no time'}`).join(' vs ')}`);
+
+  lobby.seats = lobby.seats.filter(seat => seat.socket);
+  if (lobby.seats.length === 0) lobbies.delete(lobby.code);
+};
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+  const lobby = lobbyOf.get(socket);
+  const seat = lobby?.seats.find(s => s.socket === socket);
+
+  switch (message.type) {
+    case 'create':
+    case 'join': {
+      if (lobby) return send(socket, { type: 'error', message: 'Already in a lobby' });
+      const stats = legalBuild(message.player?.stats);
+      if (!stats) return send(socket, { type: 'error', message: 'That build is not legal' });
+      const player = { name: String(message.player.name).slice(0, 16), stats, design: message.player.design };
+      const next: Lobby | undefined = message.type === 'create'
+        ? {
+            code: newCode(),
+            trackId: Object.hasOwn(TRACKS, message.trackId) ? message.trackId : DEFAULT_TRACK_ID,
+            treeType: message.treeType === 'SPORTSMAN' ? 'SPORTSMAN' : 'PRO',
+            seed: 0,
+            seats: [],
+            racing: false,
+            timer: null,
+          }
+        : lobbies.get(String(message.code).toUpperCase());
+      if (!next) return send(socket, { type: 'error', message: 'No lobby with that code' });
+      if (next.seats.length >= 2) return send(socket, { type: 'error', message: 'That lobby is full' });
+
+      next.seats.push({ socket, player, staged: false, run: undefined, rematch: false });
+      lobbies.set(next.code, next);
+      lobbyOf.set(socket, next);
+      send(socket, { type: 'lobby', code: next.code });
+      if (next.seats.length === 2) startRace(next);
+      return;
+    }
+    case 'staged': {
+      if (!lobby?.racing || !seat || seat.staged) return;
+      // The pass is replayed with the car raced, not the one they joined with
+      const stats = legalBuild(message.stats);
+      seat.staged = true;
+      if (stats) {
+        seat.player = { ...seat.player, stats };
+      } else {
+        send(socket, { type: 'error', message: 'That build is not legal, so this pass won\'t count' });
+        seat.run = null;
+      }
+      startTree(lobby);
+      return;
+    }
+    case 'state': {
+      if (!lobby?.racing) return;
+      lobby.seats.forEach(s => { if (s !== seat) send(s.socket, { type: 'state', car: message.car }); });
+      return;
+    }
+    case 'finish': {
+      if (!lobby?.racing || !seat || seat.run !== undefined) return;
+      seat.run = verifyRun(seat, lobby, message.inputs);
+      // Don't keep the faster player waiting forever on someone who walked away
+      if (!lobby.timer) {
+        lobby.timer = setTimeout(() => {
+          lobby.seats.forEach(s => { if (s.run === undefined) s.run = null; });
+          finishRace(lobby);
+        }, resultTimeout);
+      }
+      finishRace(lobby);
+      return;
+    }
+    case 'rematch': {
+      if (!lobby || lobby.racing || !seat) return;
+      seat.rematch = true;
+      if (lobby.seats.length === 2 && lobby.seats.every(s => s.rematch)) startRace(lobby);
+      return;
+    }
+    default:
+      send(socket, { type: 'error', message: 'Unknown message' });
+  }
+};
+
+const handleClose = (socket: WebSocket) => {
+  const lobby = lobbyOf.get(socket);
+  lobbyOf.delete(socket);
+  if (!lobby) return;
+  const seat = lobby.seats.find(s => s.socket === socket)!;
+  seat.socket = null;
+  lobby.seats.forEach(s => send(s.socket, { type: 'left' }));
+
+  if (lobby.racing) {
+    // Leaving mid-race forfeits it; the seat is dropped once the result is out
+    if (seat.run === undefined) seat.run = null;
+    startTree(lobby);
+    finishRace(lobby);
+  } else {
+    lobby.seats = lobby.seats.filter(s => s.socket);
+    if (lobby.seats.length === 0) lobbies.delete(lobby.code);
+  }
+};
+
+// Liveries come along as data URLs, so allow a couple of megabytes per message
+const server = new WebSocketServer({ port, maxPayload: 2 * 1024 * 1024 });
+
+server.on('connection', (socket) => {
+  socket.on('message', (data) => {
+    try {
+      handleMessage(socket, JSON.parse(String(data)));
+    } catch (error) {
+      send(socket, { type: 'error', message: String(error) });
+    }
+  });
+  socket.on('close', () => handleClose(socket));
+});
+
+server.on('listening', () => console.log(`relay: listening on ws://localhost:${port}`));
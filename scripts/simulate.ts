@@ -0,0 +1,258 @@
+// Batch race simulator for tuning analysis.
+//
+// Usage:
+//   npm run simulate -- --build 8/5/5 --build 6/6/6 --strategy window --runs 5000
+//
+// Options:
+//   --build A/T/G      Acceleration/TopSpeed/Grip build to test (repeatable, default 6/6/6)
+//   --gearbox R,R,..@FD Custom gear ratios and final drive for every build (4-8 gears)
+//   --nitrous B/S      Nitrous kit for every build: bottle lb / shot hp (default none)
+//   --nitrous-gear G   Gear the shot is fired in (default 3)
+//   --strategy S       "window" (shift inside the PERFECT window) or an RPM like "7200"
+//   --runs N           Passes per build against randomized opponents (default 1000)
+//   --reaction R       Player reaction time in seconds (default 0.2)
+//   --engine E         Engine profile for every build: stock, high_rev, turbo, v8, electric
+//   --launch-rpm R     RPM held on the line before the clutch dump (default: the engine's launch RPM)
+//   --burnout S        Seconds of burnout before staging (default 0 = cold tires)
+//   --cooldown S       Seconds between the burnout and staging (default 0)
+//   --tree T           "pro" or "sportsman" (default pro)
+//   --track T          eighth_mile, thousand_foot, quarter_mile or half_mile (default quarter_mile)
+//   --difficulty D     Opponent difficulty modifier (default 1.0)
+//   --driver P         Opponent personality: rookie, smooth, aggressive, veteran (default smooth)
+//   --seed N           Base seed; every build faces the same opponents (default 1)
+//   --format F         "json" (summary) or "csv" (one row per pass)
+import { CarStats, DriverPersonality, EngineType, Gearbox, NitrousSetup, TrackId, TreeType } from '../types';
+import { TOTAL_STAT_POINTS, MIN_STAT, MAX_STAT, MIN_GEARS, MAX_GEARS } from '../constants';
+import { createRng } from '../services/rng';
+import { generateOpponentStats } from '../services/opponentStats';
+import { clampGearbox } from '../services/gearbox';
+import { ENGINE_PROFILES, resolveEngine } from '../services/engineProfiles';
+import { TRACKS, DEFAULT_TRACK_ID } from '../services/tracks';
+import { DRIVER_PERSONALITIES, scaleDriver } from '../services/driverProfiles';
+import {
+  ShiftStrategy, SimulatedRaceResult, simulateRace, fixedRpmShift, perfectWindowShift
+} from '../services/raceSimulator';
+
+interface CliOptions {
+  builds: CarStats[];
+  strategy: string;
+  reactionTime: number;
+  launchRpm?: number;
+  burnoutTime: number;
+  burnoutCooldown: number;
+  engine?: EngineType;
+  gearbox?: Gearbox;
+  nitrous?: NitrousSetup;
+  nitrousGear: number;
+  treeType: TreeType;
+  trackId: TrackId;
+  runs: number;
+  difficulty: number;
+  driver: DriverPersonality;
+  seed: number;
+  format: 'json' | 'csv';
+}
+
+const fail = (message: string): never => {
+  console.error(`simulate: ${message}`);
+  process.exit(1);
+};
+
+const parseBuild = (value: string): CarStats => {
+  const parts = value.split('/').map(Number);
+  if (parts.length !== 3 || parts.some(p => !Number.isInteger(p) || p < MIN_STAT || p > MAX_STAT)) {
+    fail(`invalid build "${value}", expected A/T/G with values ${MIN_STAT}-${MAX_STAT}`);
+  }
+  const [acceleration, topSpeed, grip] = parts;
+  if (acceleration + topSpeed + grip !== TOTAL_STAT_POINTS) {
+    console.error(`simulate: warning: build ${value} does not spend exactly ${TOTAL_STAT_POINTS} points`);
+  }
+  return { acceleration, topSpeed, grip };
+};
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    builds: [], strategy: 'window', reactionTime: 0.2, nitrousGear: 3, burnoutTime: 0, burnoutCooldown: 0, treeType: 'PRO', trackId: DEFAULT_TRACK_ID,
+    runs: 1000, difficulty: 1.0, driver: 'SMOOTH', seed: 1, format: 'json'
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[++i];
+    if (value === undefined) fail(`missing value for ${flag}`);
+
+    switch (flag) {
+      case '--build': options.builds.push(parseBuild(value)); break;
+      case '--strategy': options.strategy = value; break;
+      case '--reaction': options.reactionTime = parseFloat(value); break;
+      case '--gearbox': {
+        const [ratios, finalDrive] = value.split('@');
+        const gearbox = { ratios: ratios.split(',').map(Number), finalDrive: Number(finalDrive) };
+        if (gearbox.ratios.length < MIN_GEARS || gearbox.ratios.length > MAX_GEARS
+            || gearbox.ratios.some(r => !(r > 0)) || !(gearbox.finalDrive > 0)) {
+          fail(`invalid gearbox "${value}", expected ${MIN_GEARS}-${MAX_GEARS} ratios like 3.5,2.5,1.8,1.3@3.5`);
+        }
+        options.gearbox = gearbox;
+        break;
+      }
+      case '--nitrous': {
+        const [bottleSize, shotSize] = value.split('/').map(Number);
+        if (!(bottleSize >= 0 && shotSize > 0)) fail(`invalid nitrous kit "${value}", expected BOTTLE/SHOT`);
+        options.nitrous = { bottleSize, shotSize };
+        break;
+      }
+      case '--nitrous-gear': options.nitrousGear = parseInt(value); break;
+      case '--launch-rpm': options.launchRpm = parseInt(value); break;
+      case '--burnout': options.burnoutTime = parseFloat(value); break;
+      case '--cooldown': options.burnoutCooldown = parseFloat(value); break;
+      case '--engine': {
+        const engine = value.toUpperCase() as EngineType;
+        if (!(engine in ENGINE_PROFILES)) fail(`unknown engine "${value}"`);
+        options.engine = engine;
+        break;
+      }
+      case '--tree':
+        if (value !== 'pro' && value !== 'sportsman') fail(`unknown tree "${value}"`);
+        options.treeType = value.toUpperCase() as TreeType;
+        break;
+      case '--track': {
+        const trackId = value.toUpperCase() as TrackId;
+        if (!(trackId in TRACKS)) fail(`unknown track "${value}"`);
+        options.trackId = trackId;
+        break;
+      }
+      case '--runs': options.runs = parseInt(value); break;
+      case '--difficulty': options.difficulty = parseFloat(value); break;
+      case '--driver': {
+        const driver = value.toUpperCase() as DriverPersonality;
+        if (!(driver in DRIVER_PERSONALITIES)) fail(`unknown driver "${value}"`);
+        options.driver = driver;
+        break;
+      }
+      case '--seed': options.seed = parseInt(value); break;
+      case '--format':
+        if (value !== 'json' && value !== 'csv') fail(`unknown format "${value}"`);
+        options.format = value as 'json' | 'csv';
+        break;
+      default: fail(`unknown option ${flag}`);
+    }
+  }
+
+  if (options.builds.length === 0) options.builds.push({ acceleration: 6, topSpeed: 6, grip: 6 });
+  if (!(options.runs > 0)) fail('--runs must be a positive integer');
+  return options;
+};
+
+const createStrategy = (name: string, stats: CarStats): ShiftStrategy => {
+  if (name === 'window') return perfectWindowShift(resolveEngine(stats));
+  const rpm = parseInt(name);
+  if (Number.isNaN(rpm)) fail(`unknown strategy "${name}"`);
+  return fixedRpmShift(rpm);
+};
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const summarize = (values: number[]) => {
+  const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (finite.length === 0) return null;
+  const mean = finite.reduce((sum, v) => sum + v, 0) / finite.length;
+  const variance = finite.reduce((sum, v) => sum + (v - mean) ** 2, 0) / finite.length;
+  return {
+    mean: round(mean),
+    stdDev: round(Math.sqrt(variance)),
+    min: round(finite[0]),
+    p10: round(percentile(finite, 0.1)),
+    p50: round(percentile(finite, 0.5)),
+    p90: round(percentile(finite, 0.9)),
+    max: round(finite[finite.length - 1]),
+  };
+};
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+const buildLabel = (s: CarStats) => `${s.acceleration}/${s.topSpeed}/${s.grip}`;
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+
+  // Pre-roll the opponent field once so every build races the same rivals
+  const fieldRng = createRng(options.seed);
+  const field = Array.from({ length: options.runs }, () => ({
+    stats: generateOpponentStats(fieldRng),
+    seed: Math.floor(fieldRng() * 0xffffffff),
+  }));
+
+  const csvRows: string[] = ['build,run,opponent,seed,rt,sixty_ft,launch_spin,et,trap_kmh,opponent_rt,opponent_et,won'];
+  const summaries = options.builds.map((build) => {
+    const stats: CarStats = {
+      ...build,
+      nitrous: options.nitrous,
+      gearbox: options.gearbox && clampGearbox(options.gearbox, build.topSpeed),
+      engine: options.engine,
+    };
+    const strategy = createStrategy(options.strategy, stats);
+    const results: SimulatedRaceResult[] = field.map((opponent, run) => {
+      const result = simulateRace({
+        stats,
+        strategy,
+        reactionTime: options.reactionTime,
+        launchRpm: options.launchRpm,
+        nitrousGear: options.nitrous ? options.nitrousGear : 0,
+        burnoutTime: options.burnoutTime,
+        burnoutCooldown: options.burnoutCooldown,
+        treeType: options.treeType,
+        trackId: options.trackId,
+        opponentStats: opponent.stats,
+        opponentDifficulty: options.difficulty,
+        opponentDriver: scaleDriver(options.driver, options.difficulty),
+        seed: opponent.seed,
+      });
+      csvRows.push([
+        buildLabel(build), run, buildLabel(opponent.stats), opponent.seed,
+        round(result.reactionTime), round(result.sixtyFootTime), round(result.launchWheelspin), round(result.playerTime), round(result.trapSpeed),
+        round(result.enemyReactionTime), round(result.enemyTime), result.playerWon ? 1 : 0
+      ].join(','));
+      return result;
+    });
+
+    return {
+      build: buildLabel(build),
+      runs: results.length,
+      winRate: round(results.filter(r => r.playerWon).length / results.length),
+      et: summarize(results.map(r => r.playerTime)),
+      sixtyFoot: summarize(results.map(r => r.sixtyFootTime)),
+      launchWheelspin: summarize(results.map(r => r.launchWheelspin)),
+      launchTireTemp: summarize(results.map(r => r.launchTireTemp)),
+      trapSpeed: summarize(results.map(r => r.trapSpeed)),
+      opponentEt: summarize(results.map(r => r.enemyTime)),
+      opponentReactionTime: summarize(results.map(r => r.enemyReactionTime)),
+      perfectShifts: summarize(results.map(r => r.perfectShifts)),
+      engineDamage: summarize(results.map(r => r.engineDamage)),
+      dnfRate: round(results.filter(r => r.dnf).length / results.length),
+    };
+  });
+
+  if (options.format === 'csv') {
+    console.log(csvRows.join('\n'));
+  } else {
+    console.log(JSON.stringify({
+      strategy: options.strategy,
+      reactionTime: options.reactionTime,
+      launchRpm: options.launchRpm ?? null,
+      burnout: options.burnoutTime,
+      cooldown: options.burnoutCooldown,
+      engine: options.engine ?? 'STOCK',
+      gearbox: options.gearbox ?? null,
+      nitrous: options.nitrous ?? null,
+      nitrousGear: options.nitrousGear,
+      tree: options.treeType,
+      track: options.trackId,
+      difficulty: options.difficulty,
+      driver: options.driver,
+      seed: options.seed,
+      builds: summaries,
+    }, null, 2));
+  }
+};
+
+main();
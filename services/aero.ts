@@ -0,0 +1,105 @@
+import { AeroProfile, CarStats } from '../types';
+import {
+  DEFAULT_CD, DEFAULT_FRONTAL_AREA, DESIGN_CANVAS_LENGTH_M, CAR_WIDTH_M, WHEEL_RADIUS
+} from '../constants';
+import { AlphaMask } from './chassis';
+
+// Aero package: drag and downforce coefficients from the painted side view.
+// The car faces right on the designer canvas.
+
+const ALPHA_THRESHOLD = 32; // Fainter pixels are anti-aliasing, not bodywork
+const NOSE_SHARE = 0.2; // Front fifth of the body is the nose
+const TAIL_SHARE = 0.3; // Rear 30% is where a wing can sit
+
+// Stock body; the Grip stat buys the downforce package
+export const resolveAero = (stats: CarStats): AeroProfile => stats.aero ?? {
+  cd: DEFAULT_CD,
+  // Range: 0.1 (No aero) to 0.8 (High downforce wing)
+  cl: 0.1 + ((stats.grip - 1) / 9) * 0.7,
+  frontalArea: DEFAULT_FRONTAL_AREA,
+  noseSlope: 0,
+  wingArea: 0,
+};
+
+// Body height limits used by measureAero, in meters
+const MIN_BODY_HEIGHT = 0.6;
+const MAX_BODY_HEIGHT = 2.5;
+
+// Forces a profile from outside the designer into the range measureAero can produce:
+// drag and downforce have to match the wing that's claimed
+export const clampAero = (aero: AeroProfile): AeroProfile => {
+  const frontalArea = Math.min(MAX_BODY_HEIGHT, Math.max(MIN_BODY_HEIGHT, aero.frontalArea / (CAR_WIDTH_M * 0.85))) * CAR_WIDTH_M * 0.85;
+  const wingArea = Math.min(DESIGN_CANVAS_LENGTH_M * TAIL_SHARE * CAR_WIDTH_M * 0.8, Math.max(0, aero.wingArea));
+  const wingShare = wingArea / frontalArea;
+  return {
+    cd: Math.min(0.6 + 0.5 * wingShare, Math.max(0.24 + 0.5 * wingShare, aero.cd)),
+    cl: Math.min(0.1 + Math.min(0.9, 1.5 * wingShare), Math.max(0.1, aero.cl)),
+    frontalArea,
+    noseSlope: Math.min(90, Math.max(0, aero.noseSlope)),
+    wingArea,
+  };
+};
+
+// Painted runs per column, top to bottom, as [startY, endY]
+const columnRuns = (mask: AlphaMask, x: number): [number, number][] => {
+  const runs: [number, number][] = [];
+  let start = -1;
+  for (let y = 0; y <= mask.height; y++) {
+    const painted = y < mask.height && mask.data[(y * mask.width + x) * 4 + 3] > ALPHA_THRESHOLD;
+    if (painted && start < 0) start = y;
+    if (!painted && start >= 0) {
+      runs.push([start, y - 1]);
+      start = -1;
+    }
+  }
+  return runs;
+};
+
+const round = (v: number, places: number) => Math.round(v * 10 ** places) / 10 ** places;
+
+// `wheels` are percent coordinates (rear axle first) and set the ground line;
+// without axles the lowest painted pixel is taken as the ground.
+export const measureAero = (mask: AlphaMask, wheels: { x: number; y: number }[]): AeroProfile | undefined => {
+  const metersPerPx = DESIGN_CANVAS_LENGTH_M / mask.width;
+  const columns = Array.from({ length: mask.width }, (_, x) => columnRuns(mask, x));
+  const painted = columns.map((runs, x) => (runs.length > 0 ? x : -1)).filter(x => x >= 0);
+  if (painted.length === 0) return undefined;
+
+  const minX = painted[0];
+  const maxX = painted[painted.length - 1];
+  const bodyLength = maxX - minX + 1;
+  const top = (x: number) => columns[x][0]?.[0] ?? Infinity;
+  // The body is the lowest run; anything floating above a gap is a wing
+  const bodyTop = (x: number) => columns[x][columns[x].length - 1]?.[0] ?? Infinity;
+
+  const ground = wheels.length === 2
+    ? (wheels[0].y + wheels[1].y) / 200 * mask.height + WHEEL_RADIUS / metersPerPx
+    : Math.max(...painted.map(x => columns[x][columns[x].length - 1][1]));
+  const roof = Math.min(...painted.map(top));
+  const height = Math.max(MIN_BODY_HEIGHT, Math.min(MAX_BODY_HEIGHT, (ground - roof) * metersPerPx));
+  const frontalArea = height * CAR_WIDTH_M * 0.85;
+
+  // Nose: how far the top line falls over the front fifth, and how tall the leading face is
+  const noseLength = Math.max(1, Math.round(bodyLength * NOSE_SHARE));
+  const noseDrop = bodyTop(maxX) - bodyTop(maxX - noseLength + 1);
+  const noseSlope = Math.max(0, Math.atan2(noseDrop, noseLength) * 180 / Math.PI);
+  const faceShare = Math.max(0, Math.min(1, (ground - bodyTop(maxX)) / (ground - roof)));
+  const bluntness = 0.5 * Math.max(0, 1 - noseSlope / 45) + 0.5 * faceShare;
+
+  // Rear wing: tail columns with a gap between the bodywork and something above it
+  const tailEnd = minX + Math.round(bodyLength * TAIL_SHARE);
+  let wingColumns = 0;
+  for (let x = minX; x <= tailEnd; x++) {
+    if (columns[x].length >= 2) wingColumns++;
+  }
+  const wingArea = wingColumns * metersPerPx * CAR_WIDTH_M * 0.8;
+  const wingShare = wingArea / frontalArea;
+
+  return {
+    cd: round(0.24 + 0.36 * bluntness + 0.5 * wingShare, 3),
+    cl: round(0.1 + Math.min(0.9, 1.5 * wingShare), 3),
+    frontalArea: round(frontalArea, 2),
+    noseSlope: Math.round(noseSlope),
+    wingArea: round(wingArea, 2),
+  };
+};
@@ -0,0 +1,147 @@
+import { CareerSave, CarStats, DriverPersonality, Opponent, RaceResult, TrackId } from '../types';
+import {
+  CAREER_START_CASH, CAREER_BOSS_MULTIPLIER, CAREER_BOSS_ENTRY_SHARE, CAREER_REMATCH_SHARE, CAREER_LOSS_REP_SHARE
+} from '../constants';
+import { scaleDriver } from './driverProfiles';
+
+// Career ladder: tiers of named rivals, each tier closed out by a boss. Rivals have to be
+// beaten in order, and the boss unlocks the next tier. Beaten rivals can be raced again for cash.
+
+export interface CareerRival {
+  id: string;
+  name: string;
+  carName: string;
+  taunt: string;
+  color: string;
+  seed: number; // Livery seed
+  personality: DriverPersonality;
+  difficulty: number;
+  stats: CarStats;
+}
+
+export interface CareerTier {
+  name: string;
+  trackId: TrackId;
+  purse: number; // Cash for beating a regular rung
+  reputation: number; // Reputation for beating a regular rung
+  rivals: CareerRival[]; // In ladder order; the last one is the boss
+}
+
+export const CAREER_TIERS: CareerTier[] = [
+  {
+    name: 'Parking Lot Kings',
+    trackId: 'EIGHTH_MILE',
+    purse: 300,
+    reputation: 10,
+    rivals: [
+      { id: 'dash', name: 'Dash Kowalski', carName: 'Rustbucket GT', taunt: 'My mom lent me the car. I still win.', color: '#a3e635', seed: 1101, personality: 'ROOKIE', difficulty: 0.8, stats: { acceleration: 5, topSpeed: 5, grip: 5 } },
+      { id: 'tina', name: 'Tina Two-Step', carName: 'Civic Rage', taunt: 'Hear that limiter? That\'s your future.', color: '#f472b6', seed: 1102, personality: 'SMOOTH', difficulty: 0.85, stats: { acceleration: 6, topSpeed: 5, grip: 5 } },
+      { id: 'mack', name: 'Mack Attack', carName: 'Box Chevy', taunt: 'Tires are for people who plan ahead.', color: '#fb923c', seed: 1103, personality: 'AGGRESSIVE', difficulty: 0.9, stats: { acceleration: 7, topSpeed: 5, grip: 4, engine: 'V8' } },
+      { id: 'big_lou', name: 'Big Lou', carName: 'Lot Monster', taunt: 'This is my lot. You\'re parked in it.', color: '#facc15', seed: 1104, personality: 'VETERAN', difficulty: 0.95, stats: { acceleration: 6, topSpeed: 5, grip: 7, engine: 'V8', nitrous: { bottleSize: 2.5, shotSize: 50 } } },
+    ],
+  },
+  {
+    name: 'Industrial Nights',
+    trackId: 'THOUSAND_FOOT',
+    purse: 800,
+    reputation: 20,
+    rivals: [
+      { id: 'rivet', name: 'Rivet', carName: 'Forklift Fury', taunt: 'I weld for a living. I can fix what\'s left of you.', color: '#94a3b8', seed: 2101, personality: 'SMOOTH', difficulty: 0.95, stats: { acceleration: 6, topSpeed: 6, grip: 6 } },
+      { id: 'sparks', name: 'Sparks', carName: 'Arcweld RS', taunt: 'Blink and you\'ll miss me. You\'ll blink.', color: '#38bdf8', seed: 2102, personality: 'AGGRESSIVE', difficulty: 1.0, stats: { acceleration: 8, topSpeed: 6, grip: 5, engine: 'HIGH_REV' } },
+      { id: 'nightshift', name: 'Nightshift', carName: 'Graveyard 9', taunt: 'I\'ve been up for thirty hours. Still faster.', color: '#818cf8', seed: 2103, personality: 'VETERAN', difficulty: 1.0, stats: { acceleration: 7, topSpeed: 6, grip: 6, nitrous: { bottleSize: 2.5, shotSize: 100 } } },
+      { id: 'foreman', name: 'The Foreman', carName: 'Heavy Duty', taunt: 'You\'re on my clock now.', color: '#ef4444', seed: 2104, personality: 'VETERAN', difficulty: 1.05, stats: { acceleration: 8, topSpeed: 6, grip: 7, engine: 'TURBO', nitrous: { bottleSize: 5, shotSize: 100 } } },
+    ],
+  },
+  {
+    name: 'Neon Nationals',
+    trackId: 'QUARTER_MILE',
+    purse: 2000,
+    reputation: 40,
+    rivals: [
+      { id: 'volt', name: 'Volt', carName: 'Static Shock', taunt: 'No gears, no mercy.', color: '#22d3ee', seed: 3101, personality: 'SMOOTH', difficulty: 1.05, stats: { acceleration: 8, topSpeed: 7, grip: 6, engine: 'ELECTRIC' } },
+      { id: 'vega', name: 'Vega', carName: 'Starlight SS', taunt: 'Cameras are on me. Try to stay in frame.', color: '#e879f9', seed: 3102, personality: 'AGGRESSIVE', difficulty: 1.1, stats: { acceleration: 9, topSpeed: 6, grip: 6, engine: 'TURBO', nitrous: { bottleSize: 5, shotSize: 150 } } },
+      { id: 'okafor', name: 'Dr. Okafor', carName: 'Thesis', taunt: 'I ran your numbers. You should go home.', color: '#4ade80', seed: 3103, personality: 'VETERAN', difficulty: 1.1, stats: { acceleration: 8, topSpeed: 7, grip: 7, engine: 'HIGH_REV', nitrous: { bottleSize: 5, shotSize: 100 } } },
+      { id: 'queen', name: 'Neon Queen', carName: 'Crown Jewel', taunt: 'Kneel at the stripe.', color: '#c084fc', seed: 3104, personality: 'VETERAN', difficulty: 1.2, stats: { acceleration: 9, topSpeed: 8, grip: 8, engine: 'TURBO', nitrous: { bottleSize: 10, shotSize: 150 } } },
+    ],
+  },
+];
+
+export const NEW_CAREER: CareerSave = { cash: CAREER_START_CASH, reputation: 0, tier: 0, rung: 0, beaten: [] };
+
+export const careerComplete = (save: CareerSave): boolean => save.tier >= CAREER_TIERS.length;
+
+export const isBoss = (tier: number, rung: number): boolean => rung === CAREER_TIERS[tier].rivals.length - 1;
+
+// Anything at or below the player's ladder position can be raced
+export const isUnlocked = (save: CareerSave, tier: number, rung: number): boolean =>
+  tier < save.tier || (tier === save.tier && rung <= save.rung);
+
+export const entryFee = (tier: number, rung: number): number =>
+  isBoss(tier, rung) ? Math.round(CAREER_TIERS[tier].purse * CAREER_BOSS_ENTRY_SHARE) : 0;
+
+export const canRace = (save: CareerSave, tier: number, rung: number): boolean =>
+  isUnlocked(save, tier, rung) && save.cash >= entryFee(tier, rung);
+
+// Rival at a ladder position; the caller paints its livery from `seed`
+export const careerOpponent = (tier: number, rung: number): Opponent => {
+  const rival = CAREER_TIERS[tier].rivals[rung];
+  return {
+    name: rival.name,
+    carName: rival.carName,
+    taunt: rival.taunt,
+    color: rival.color,
+    seed: rival.seed,
+    difficulty: rival.difficulty,
+    driver: scaleDriver(rival.personality, rival.difficulty),
+    stats: rival.stats,
+  };
+};
+
+export interface CareerOutcome {
+  cash: number; // Change in cash, entry fee included
+  reputation: number; // Change in reputation
+  unlocked: string | null; // What the win opened up, for the result screen
+}
+
+// Settles a career race; the entry fee was already taken when the race started
+export const applyCareerResult = (
+  save: CareerSave, tier: number, rung: number, result: RaceResult
+): { save: CareerSave; outcome: CareerOutcome } => {
+  const ladder = CAREER_TIERS[tier];
+  const rival = ladder.rivals[rung];
+  const boss = isBoss(tier, rung);
+  const firstWin = !save.beaten.includes(rival.id);
+  const fee = entryFee(tier, rung);
+  const winRep = ladder.reputation * (boss ? CAREER_BOSS_MULTIPLIER : 1);
+
+  if (!result.playerWon) {
+    const reputation = -Math.min(save.reputation, Math.round(winRep * CAREER_LOSS_REP_SHARE));
+    return {
+      save: { ...save, reputation: save.reputation + reputation },
+      outcome: { cash: -fee, reputation, unlocked: null },
+    };
+  }
+
+  const purse = ladder.purse * (boss ? CAREER_BOSS_MULTIPLIER : 1);
+  const cash = firstWin ? purse : Math.round(purse * CAREER_REMATCH_SHARE);
+  const reputation = firstWin ? winRep : 0;
+  const next = { ...save, cash: save.cash + cash, reputation: save.reputation + reputation };
+  let unlocked: string | null = null;
+
+  // Only beating the rival at the top of the ladder moves the player up it
+  if (tier === save.tier && rung === save.rung) {
+    if (boss) {
+      next.tier = tier + 1;
+      next.rung = 0;
+      unlocked = careerComplete(next) ? 'Career complete' : `${CAREER_TIERS[tier + 1].name} unlocked`;
+    } else {
+      next.rung = rung + 1;
+      unlocked = isBoss(tier, rung + 1)
+        ? `Boss unlocked: ${ladder.rivals[rung + 1].name}`
+        : `Next up: ${ladder.rivals[rung + 1].name}`;
+    }
+  }
+  if (firstWin) next.beaten = [...save.beaten, rival.id];
+
+  return { save: next, outcome: { cash: cash - fee, reputation, unlocked } };
+};
@@ -0,0 +1,80 @@
+import { CarStats, ChassisGeometry } from '../types';
+import {
+  DEFAULT_WHEELBASE, DEFAULT_CG_HEIGHT, DEFAULT_REAR_WEIGHT, DESIGN_CANVAS_LENGTH_M,
+  BODY_MASS_SHARE, MIN_WHEELBASE, WHEEL_RADIUS
+} from '../constants';
+
+// Chassis geometry: where the axles sit and where the mass is.
+// Drives weight transfer and wheelies in the physics engine.
+
+export const DEFAULT_CHASSIS: ChassisGeometry = {
+  wheelbase: DEFAULT_WHEELBASE,
+  cgHeight: DEFAULT_CG_HEIGHT,
+  cgToRearAxle: DEFAULT_WHEELBASE * (1 - DEFAULT_REAR_WEIGHT),
+};
+
+export const resolveChassis = (stats: CarStats): ChassisGeometry =>
+  stats.chassis ?? DEFAULT_CHASSIS;
+
+// The designer canvas is 800x300, so nothing painted sits higher than this
+const MAX_CG_HEIGHT = DESIGN_CANVAS_LENGTH_M * 300 / 800;
+
+// Forces geometry from outside the designer into the range measureChassis can produce
+export const clampChassis = (chassis: ChassisGeometry): ChassisGeometry => {
+  const wheelbase = Math.min(DESIGN_CANVAS_LENGTH_M, Math.max(MIN_WHEELBASE, chassis.wheelbase));
+  return {
+    wheelbase,
+    cgToRearAxle: Math.min(wheelbase * 0.95, Math.max(wheelbase * 0.05, chassis.cgToRearAxle)),
+    cgHeight: Math.min(MAX_CG_HEIGHT, Math.max(0.2, chassis.cgHeight)),
+  };
+};
+
+// Static share of the weight on the rear tires
+export const rearWeightShare = (chassis: ChassisGeometry): number =>
+  1 - chassis.cgToRearAxle / chassis.wheelbase;
+
+// Subset of ImageData, so the measurement runs without a DOM
+export interface AlphaMask {
+  data: Uint8ClampedArray; // RGBA
+  width: number;
+  height: number;
+}
+
+// Measures the chassis from the designer canvas. Every painted pixel is body mass;
+// the running gear (engine, axles) sits between the axles with the stock weight split.
+// `wheels` are percent coordinates, rear axle first.
+export const measureChassis = (mask: AlphaMask, wheels: { x: number; y: number }[]): ChassisGeometry => {
+  const metersPerPx = DESIGN_CANVAS_LENGTH_M / mask.width;
+  const [rear, front] = wheels.map(w => ({ x: (w.x / 100) * mask.width, y: (w.y / 100) * mask.height }));
+  const axleY = (rear.y + front.y) / 2;
+  const wheelbase = Math.max(MIN_WHEELBASE, (front.x - rear.x) * metersPerPx);
+
+  // Alpha-weighted centroid of the paint
+  let paint = 0, sumX = 0, sumY = 0;
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      const alpha = mask.data[(y * mask.width + x) * 4 + 3];
+      if (alpha === 0) continue;
+      paint += alpha;
+      sumX += x * alpha;
+      sumY += y * alpha;
+    }
+  }
+
+  const gearX = wheelbase * (1 - DEFAULT_REAR_WEIGHT);
+  let cgToRearAxle = gearX;
+  let cgHeight = WHEEL_RADIUS;
+  if (paint > 0) {
+    const bodyX = (sumX / paint - rear.x) * metersPerPx;
+    const bodyHeight = WHEEL_RADIUS + (axleY - sumY / paint) * metersPerPx;
+    cgToRearAxle = gearX * (1 - BODY_MASS_SHARE) + bodyX * BODY_MASS_SHARE;
+    cgHeight = WHEEL_RADIUS * (1 - BODY_MASS_SHARE) + bodyHeight * BODY_MASS_SHARE;
+  }
+
+  return {
+    wheelbase,
+    // Keep the CG between the axles and off the ground so the car can at least sit still
+    cgToRearAxle: Math.min(wheelbase * 0.95, Math.max(wheelbase * 0.05, cgToRearAxle)),
+    cgHeight: Math.max(0.2, cgHeight),
+  };
+};
@@ -0,0 +1,67 @@
+import { TreeType } from '../types';
+import {
+  DT, PRE_STAGE_DELAY, STAGE_DELAY, TREE_RANDOM_DELAY_MAX,
+  PRO_TREE_GREEN_DELAY, SPORTSMAN_TREE_STEP
+} from '../constants';
+import { Rng } from './rng';
+
+// Drag strip starting lights, expressed in simulation ticks.
+
+export interface TreeSchedule {
+  type: TreeType;
+  preStageTick: number;
+  stageTick: number;
+  amberTicks: [number, number, number]; // Top to bottom
+  greenTick: number;
+}
+
+export interface TreeLights {
+  preStage: boolean;
+  stage: boolean;
+  ambers: [boolean, boolean, boolean];
+  green: boolean;
+}
+
+const toTicks = (seconds: number) => Math.round(seconds / DT);
+
+export const createTreeSchedule = (type: TreeType, rng: Rng): TreeSchedule => {
+  const preStageTick = toTicks(PRE_STAGE_DELAY);
+  const stageTick = toTicks(STAGE_DELAY);
+  // Always hold at least 0.4s after staging, plus a random amount
+  const treeStart = stageTick + toTicks(0.4 + rng() * TREE_RANDOM_DELAY_MAX);
+
+  if (type === 'PRO') {
+    return {
+      type, preStageTick, stageTick,
+      amberTicks: [treeStart, treeStart, treeStart],
+      greenTick: treeStart + toTicks(PRO_TREE_GREEN_DELAY),
+    };
+  }
+
+  const step = toTicks(SPORTSMAN_TREE_STEP);
+  return {
+    type, preStageTick, stageTick,
+    amberTicks: [treeStart, treeStart + step, treeStart + step * 2],
+    greenTick: treeStart + step * 3,
+  };
+};
+
+// Pushes the whole sequence back, e.g. while a car is still in the burnout box
+export const offsetTree = (schedule: TreeSchedule, ticks: number): TreeSchedule => ({
+  ...schedule,
+  preStageTick: schedule.preStageTick + ticks,
+  stageTick: schedule.stageTick + ticks,
+  amberTicks: schedule.amberTicks.map(t => t + ticks) as [number, number, number],
+  greenTick: schedule.greenTick + ticks,
+});
+
+export const getTreeLights = (schedule: TreeSchedule, tick: number): TreeLights => {
+  const green = tick >= schedule.greenTick;
+  return {
+    preStage: tick >= schedule.preStageTick,
+    stage: tick >= schedule.stageTick,
+    // Ambers go out when the green comes on
+    ambers: schedule.amberTicks.map(t => tick >= t && !green) as [boolean, boolean, boolean],
+    green,
+  };
+};
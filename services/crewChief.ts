@@ -0,0 +1,229 @@
+import { CarStats, Opponent, RaceResult, RunRecord, StatKey } from '../types';
+import { MIN_STAT, MAX_STAT } from '../constants';
+import { EngineProfile, resolveEngine } from './engineProfiles';
+import { clampGearbox } from './gearbox';
+import { buildRecapTelemetry } from './raceRecap';
+import { fixedRpmShift, perfectWindowShift, simulateRace } from './raceSimulator';
+
+// Crew chief: reads the player's recent runs in a build and suggests changes, from simple
+// rules over the telemetry and from re-running the player's habits with other stat spreads.
+
+export const RUN_HISTORY_SIZE = 30;
+export const MAX_PIT_TALK_LENGTH = 140;
+const RUNS_CONSIDERED = 6; // Most recent runs of the build the advice is based on
+const SIM_SEEDS = 2; // Simulated races per recorded run, per candidate spread
+const MIN_GAIN = 0.02; // Seconds a spread has to be quicker by to be worth suggesting
+
+const STAT_KEYS: StatKey[] = ['acceleration', 'topSpeed', 'grip'];
+export const STAT_LABELS: Record<StatKey, string> = { acceleration: 'acceleration', topSpeed: 'top speed', grip: 'grip' };
+
+// Identifies a build: the point spread plus the engine, the two things that change how it drives
+export const buildKey = (stats: CarStats): string =>
+  `${stats.acceleration}/${stats.topSpeed}/${stats.grip} ${resolveEngine(stats).id}`;
+
+export const runRecord = (result: RaceResult, stats: CarStats, opponent: Opponent): RunRecord => ({
+  build: buildKey(stats),
+  trackId: result.trackId,
+  won: result.playerWon,
+  dnf: result.dnf,
+  et: Number.isFinite(result.playerTime) ? result.playerTime : null,
+  margin: buildRecapTelemetry(result).margin,
+  reactionTime: result.reactionTime,
+  launchRpm: result.launchRpm,
+  launchTireGrip: result.launchTireGrip,
+  gearSpinTime: result.gearSpinTime,
+  limiterTime: result.limiterTime,
+  shifts: result.shifts,
+  opponentStats: opponent.stats,
+  date: Date.now(),
+});
+
+// Newest first, only runs made in this build
+export const recentRuns = (history: RunRecord[], stats: CarStats): RunRecord[] => {
+  const key = buildKey(stats);
+  return history.filter(r => r.build === key).slice(-RUNS_CONSIDERED).reverse();
+};
+
+export interface StatMove {
+  from: StatKey;
+  to: StatKey;
+  points: number;
+}
+
+export interface CrewAdvice {
+  text: string;
+  move?: StatMove; // A stat change the Garage can apply directly
+}
+
+export interface CrewChiefReport {
+  runs: number;
+  advice: CrewAdvice[]; // Most important first
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+export const applyMove = (stats: CarStats, move: StatMove): CarStats => {
+  const next = { ...stats, [move.from]: stats[move.from] - move.points, [move.to]: stats[move.to] + move.points };
+  // Less top speed can make a custom final drive illegal
+  if (next.gearbox && (move.from === 'topSpeed' || move.to === 'topSpeed')) next.gearbox = clampGearbox(next.gearbox, next.topSpeed);
+  return next;
+};
+
+const legalMove = (stats: CarStats, { from, to, points }: StatMove) =>
+  stats[from] - points >= MIN_STAT && stats[to] + points <= MAX_STAT;
+
+const singlePointMoves = (stats: CarStats): StatMove[] => {
+  const moves: StatMove[] = [];
+  for (const from of STAT_KEYS) {
+    for (const to of STAT_KEYS) {
+      if (from !== to && legalMove(stats, { from, to, points: 1 })) moves.push({ from, to, points: 1 });
+    }
+  }
+  return moves;
+};
+
+// The player's habits in these runs, as simulator inputs
+const driverHabits = (runs: RunRecord[], engine: EngineProfile) => {
+  const clean = runs.filter(r => r.reactionTime > 0);
+  const shiftRpms = runs.flatMap(r => r.shifts.map(s => s.rpm));
+  return {
+    reactionTime: clean.length ? median(clean.map(r => r.reactionTime)) : 0.3,
+    launchRpm: mean(runs.map(r => r.launchRpm)),
+    strategy: shiftRpms.length ? fixedRpmShift(median(shiftRpms)) : perfectWindowShift(engine),
+    // Tires that launched in the window were warmed, so warm them in the sim too
+    burnoutTime: mean(runs.map(r => r.launchTireGrip)) > 0.97 ? 3 : 0,
+  };
+};
+
+// Mean simulated ET of a build driven the way the player drives, against the rivals they raced,
+// each on the strip it was raced on
+const simulatedEt = (stats: CarStats, runs: RunRecord[]): number => {
+  const habits = driverHabits(runs, resolveEngine(stats));
+  const times: number[] = [];
+  runs.forEach((run, i) => {
+    for (let s = 0; s < SIM_SEEDS; s++) {
+      const race = simulateRace({ ...habits, stats, opponentStats: run.opponentStats, trackId: run.trackId, seed: 1 + i * SIM_SEEDS + s });
+      // A run that doesn't finish costs more than any plausible ET loss
+      times.push(Number.isFinite(race.playerTime) ? race.playerTime : 60);
+    }
+  });
+  return mean(times);
+};
+
+// Best one-point move by re-simulation, taken to two points if the second one helps too;
+// null if the current spread is as quick as any
+export const suggestStatMove = (stats: CarStats, runs: RunRecord[]): { move: StatMove; gain: number } | null => {
+  if (!runs.length) return null;
+  const baseline = simulatedEt(stats, runs);
+  const gainOf = (move: StatMove) => baseline - simulatedEt(applyMove(stats, move), runs);
+  let best: { move: StatMove; gain: number } | null = null;
+  for (const move of singlePointMoves(stats)) {
+    const gain = gainOf(move);
+    if (gain >= MIN_GAIN && (!best || gain > best.gain)) best = { move, gain };
+  }
+  if (best) {
+    const further = { ...best.move, points: 2 };
+    if (legalMove(stats, further)) {
+      const gain = gainOf(further);
+      if (gain > best.gain) best = { move: further, gain };
+    }
+  }
+  return best;
+};
+
+const ordinal = (gear: number) => `${gear}${gear === 1 ? 'st' : gear === 2 ? 'nd' : gear === 3 ? 'rd' : 'th'}`;
+
+// The run data that backs up a stat move, in the player's terms
+const moveEvidence = (move: StatMove, runs: RunRecord[]): string => {
+  if (move.to === 'grip' || move.from === 'acceleration') {
+    const gears = Math.max(...runs.map(r => r.gearSpinTime.length));
+    let worst = 0;
+    let worstSpin = 0;
+    for (let g = 0; g < gears; g++) {
+      const spin = mean(runs.map(r => r.gearSpinTime[g] ?? 0));
+      if (spin > worstSpin) { worst = g; worstSpin = spin; }
+    }
+    if (worstSpin > 0.1) return `you spun for ${worstSpin.toFixed(1)}s in ${ordinal(worst + 1)} gear`;
+  }
+  if (move.to === 'topSpeed') {
+    const limiter = mean(runs.map(r => r.limiterTime));
+    if (limiter > 0.1) return `you sat on the limiter for ${limiter.toFixed(1)}s a run`;
+    return `you're running out of gear before the stripe`;
+  }
+  if (move.to === 'acceleration') {
+    const spin = mean(runs.map(r => r.gearSpinTime.reduce((a, b) => a + b, 0)));
+    return spin < 0.3 ? `the tires are hooking, so they can take more power` : `there's power left on the table`;
+  }
+  return `it suits the way you drive it`;
+};
+
+// Local rules over the telemetry, each tied to something the player can change
+const ruleAdvice = (runs: RunRecord[], engine: EngineProfile): CrewAdvice[] => {
+  const advice: CrewAdvice[] = [];
+  const limiter = mean(runs.map(r => r.limiterTime));
+  const shiftRpms = runs.flatMap(r => r.shifts.map(s => s.rpm));
+  const reactions = runs.filter(r => r.reactionTime > 0).map(r => r.reactionTime);
+  const redLights = runs.filter(r => r.reactionTime < 0).length;
+  const launchRpm = mean(runs.map(r => r.launchRpm));
+  const launchGrip = mean(runs.map(r => r.launchTireGrip));
+
+  if (limiter > 0.2) {
+    advice.push({ text: `${limiter.toFixed(1)}s a run on the rev limiter. Shift by ${engine.shiftMax} rpm; it's costing speed and the engine.` });
+  }
+  if (shiftRpms.length && !engine.singleGear) {
+    const rpm = median(shiftRpms);
+    if (rpm < engine.shiftMin - 300) {
+      advice.push({ text: `Your shifts average ${Math.round(rpm)} rpm and the window opens at ${engine.shiftMin}. Hold each gear longer.` });
+    }
+  }
+  if (engine.bogRpm > 0 && launchRpm < engine.bogRpm) {
+    advice.push({ text: `Launching at ${Math.round(launchRpm)} rpm bogs it. Bring it up to about ${engine.launchRpm} before the green.` });
+  }
+  if (launchGrip < 0.9) {
+    advice.push({ text: `The tires left at ${Math.round(launchGrip * 100)}% grip. Spend longer in the burnout box.` });
+  }
+  if (redLights >= 2) {
+    advice.push({ text: `${redLights} red lights in your last ${runs.length} runs. Wait for the green; a late launch still beats a foul.` });
+  } else if (reactions.length && median(reactions) > 0.3) {
+    advice.push({ text: `Reaction times around ${median(reactions).toFixed(3)}s. On a Pro tree, go on the ambers.` });
+  }
+  return advice;
+};
+
+// Reports by build and runs, so flicking back to a spread doesn't re-run its sims
+const REPORT_CACHE_SIZE = 20;
+const reportCache = new Map<string, CrewChiefReport>();
+
+export const crewChiefReport = (stats: CarStats, runs: RunRecord[]): CrewChiefReport => {
+  if (!runs.length) return { runs: 0, advice: [] };
+  const key = JSON.stringify([stats, runs.map(r => r.date)]);
+  const cached = reportCache.get(key);
+  if (cached) return cached;
+  const engine = resolveEngine(stats);
+  const advice: CrewAdvice[] = [];
+
+  const margins = runs.map(r => r.margin).filter((m): m is number => m !== null);
+  if (margins.length && mean(margins) < 0) {
+    advice.push({ text: `You're ${Math.abs(mean(margins)).toFixed(3)}s behind on average over your last ${runs.length} runs.` });
+  }
+
+  const suggestion = suggestStatMove(stats, runs);
+  if (suggestion) {
+    const { move, gain } = suggestion;
+    advice.push({
+      text: `Move ${move.points} point${move.points > 1 ? 's' : ''} from ${STAT_LABELS[move.from]} to ${STAT_LABELS[move.to]}: ` +
+        `${moveEvidence(move, runs)}. Worth about ${gain.toFixed(2)}s in the sims.`,
+      move,
+    });
+  }
+
+  const report = { runs: runs.length, advice: [...advice, ...ruleAdvice(runs, engine)] };
+  const oldest = reportCache.keys().next().value;
+  if (reportCache.size >= REPORT_CACHE_SIZE && oldest !== undefined) reportCache.delete(oldest);
+  reportCache.set(key, report);
+  return report;
+};
@@ -0,0 +1,101 @@
+import { DriverPersonality, DriverProfile } from '../types';
+import { EngineProfile } from './engineProfiles';
+import { Rng } from './rng';
+
+// AI driver personalities. A profile is fixed per opponent; everything it does in a race
+// is rolled from the session's seeded RNG, so the same opponent and seed drive identically.
+
+export const DRIVER_PERSONALITIES: Record<DriverPersonality, DriverProfile> = {
+  // Slow off the tree, short-shifts everywhere and panics with the nitrous
+  ROOKIE: {
+    personality: 'ROOKIE',
+    reactionTime: 0.3, reactionSpread: 0.12,
+    launchRpmShare: 0.75,
+    shiftTarget: 0.3, shiftSpread: 0.8,
+    spinReaction: Infinity,
+    nitrousGear: 1,
+    mistakeRate: 0.15,
+  },
+  // Never spectacular, never wrong
+  SMOOTH: {
+    personality: 'SMOOTH',
+    reactionTime: 0.22, reactionSpread: 0.05,
+    launchRpmShare: 0.95,
+    shiftTarget: 0.5, shiftSpread: 0.25,
+    spinReaction: 0.3,
+    nitrousGear: 3,
+    mistakeRate: 0.03,
+  },
+  // Leaves hot, revs it out and sprays early; fast when it works
+  AGGRESSIVE: {
+    personality: 'AGGRESSIVE',
+    reactionTime: 0.15, reactionSpread: 0.1,
+    launchRpmShare: 1.15,
+    shiftTarget: 0.8, shiftSpread: 0.3,
+    spinReaction: 0.6,
+    nitrousGear: 2,
+    mistakeRate: 0.1,
+  },
+  // Sharp and repeatable in every phase
+  VETERAN: {
+    personality: 'VETERAN',
+    reactionTime: 0.17, reactionSpread: 0.03,
+    launchRpmShare: 1.0,
+    shiftTarget: 0.6, shiftSpread: 0.1,
+    spinReaction: 0.2,
+    nitrousGear: 3,
+    mistakeRate: 0.02,
+  },
+};
+
+const PERSONALITY_IDS = Object.keys(DRIVER_PERSONALITIES) as DriverPersonality[];
+
+// Difficulty sharpens a personality without changing its character:
+// quicker and steadier on the tree, tighter shifts, fewer mistakes.
+export const scaleDriver = (personality: DriverPersonality, difficulty: number): DriverProfile => {
+  const base = DRIVER_PERSONALITIES[personality];
+  const skill = Math.max(0.1, difficulty);
+  return {
+    ...base,
+    reactionTime: base.reactionTime / skill,
+    reactionSpread: base.reactionSpread / skill,
+    shiftSpread: base.shiftSpread / skill,
+    spinReaction: base.spinReaction / skill,
+    mistakeRate: Math.min(1, base.mistakeRate / (skill * skill)),
+  };
+};
+
+export const rollDriverProfile = (difficulty: number, rng: Rng = Math.random): DriverProfile =>
+  scaleDriver(PERSONALITY_IDS[Math.floor(rng() * PERSONALITY_IDS.length)], difficulty);
+
+// Reaction to the green for one race. A botched one jumps the start.
+export const rollReactionTime = (profile: DriverProfile, rng: Rng): number => {
+  const jumped = rng() < profile.mistakeRate * 0.3;
+  const roll = rng();
+  if (jumped) return -(0.01 + roll * 0.08);
+  return Math.max(0.02, profile.reactionTime + (roll - 0.5) * 2 * profile.reactionSpread);
+};
+
+export type AIShiftReason = 'SHIFT_POINT' | 'MISSED_EARLY' | 'MISSED_LATE' | 'NO_PULL';
+
+export interface ShiftPlan {
+  rpm: number;
+  reason: AIShiftReason;
+}
+
+// Where the driver means to pull the next gear, rolled once per gear
+export const planShift = (profile: DriverProfile, engine: EngineProfile, rng: Rng): ShiftPlan => {
+  const mistake = rng() < profile.mistakeRate;
+  const roll = rng();
+  if (mistake) {
+    return roll < 0.5
+      ? { rpm: engine.redline * 0.55, reason: 'MISSED_EARLY' }
+      : { rpm: engine.redline - 150, reason: 'MISSED_LATE' };
+  }
+  const window = engine.shiftMax - engine.shiftMin;
+  const aim = profile.shiftTarget + (roll - 0.5) * 2 * profile.shiftSpread;
+  return {
+    rpm: Math.min(engine.redline - 150, engine.shiftMin + aim * window),
+    reason: 'SHIFT_POINT',
+  };
+};
@@ -0,0 +1,108 @@
+import { CarStats, EngineType } from '../types';
+import {
+  REDLINE, IDLE_RPM, OPTIMAL_SHIFT_MIN, OPTIMAL_SHIFT_MAX, LAUNCH_BOG_RPM, AI_LAUNCH_RPM
+} from '../constants';
+
+// Selectable engines. Each brings its own torque curve, rev range and shift window;
+// the physics, shift grading, tachometer and AI all read from the active profile.
+
+export interface TurboSpec {
+  spoolRpm: number;   // No boost builds below this
+  spoolRate: number;  // Boost fraction gained per second once on the turbo
+  maxBoost: number;   // Extra torque at full boost (0.6 = +60%)
+  shiftLoss: number;  // Fraction of boost kept through a gear change
+}
+
+export interface EngineProfile {
+  id: EngineType;
+  name: string;
+  description: string;
+  idleRpm: number;
+  redline: number;
+  shiftMin: number; // PERFECT shift window
+  shiftMax: number;
+  launchRpm: number; // Sensible launch RPM (what the AI aims for)
+  bogRpm: number; // Dumping the clutch below this bogs the engine (0 = can't bog)
+  flywheel: number; // Scales the clutch-dump shock (0 = no clutch)
+  singleGear?: boolean; // Direct drive, no shifting
+  turbo?: TurboSpec;
+  // Torque multiplier at a given fraction of redline (0..1)
+  torque: (normRpm: number) => number;
+}
+
+export const ELECTRIC_GEAR_RATIO = 2.2;
+
+export const ENGINE_PROFILES: Record<EngineType, EngineProfile> = {
+  STOCK: {
+    id: 'STOCK',
+    name: 'Street I6',
+    description: 'Balanced all-rounder.',
+    idleRpm: IDLE_RPM,
+    redline: REDLINE,
+    shiftMin: OPTIMAL_SHIFT_MIN,
+    shiftMax: OPTIMAL_SHIFT_MAX,
+    launchRpm: AI_LAUNCH_RPM,
+    bogRpm: LAUNCH_BOG_RPM,
+    flywheel: 1.0,
+    // Simple torque curve: Peaky in middle, drops off near redline
+    torque: (r) => 0.5 + 2.0 * r - 2.5 * r * r,
+  },
+  HIGH_REV: {
+    id: 'HIGH_REV',
+    name: 'Screamer NA',
+    description: 'High-revving. Soft down low, pulls hard to 9500.',
+    idleRpm: 1200,
+    redline: 9500,
+    shiftMin: 8600,
+    shiftMax: 9300,
+    launchRpm: 6000,
+    bogRpm: 4000,
+    flywheel: 0.8,
+    torque: (r) => 0.22 + 1.4 * r - 1.0 * r * r,
+  },
+  TURBO: {
+    id: 'TURBO',
+    name: 'Turbo 4',
+    description: 'Lag off the line, then a wall of boost.',
+    idleRpm: 900,
+    redline: 7500,
+    shiftMin: 6600,
+    shiftMax: 7300,
+    launchRpm: 4500,
+    bogRpm: 3200,
+    flywheel: 1.0,
+    turbo: { spoolRpm: 3000, spoolRate: 1.2, maxBoost: 0.75, shiftLoss: 0.5 },
+    torque: (r) => 0.35 + 1.1 * r - 1.1 * r * r,
+  },
+  V8: {
+    id: 'V8',
+    name: 'Big Block V8',
+    description: 'Torque monster. Easy to blow the tires off.',
+    idleRpm: 800,
+    redline: 6500,
+    shiftMin: 5600,
+    shiftMax: 6300,
+    launchRpm: 3000,
+    bogRpm: 2200,
+    flywheel: 1.3,
+    torque: (r) => 0.85 + 0.5 * r - 1.0 * r * r,
+  },
+  ELECTRIC: {
+    id: 'ELECTRIC',
+    name: 'Dual Motor EV',
+    description: 'Instant flat torque, single gear, nothing to shift.',
+    idleRpm: 0,
+    redline: 16000,
+    shiftMin: 16000,
+    shiftMax: 16000,
+    launchRpm: 0,
+    bogRpm: 0,
+    flywheel: 0,
+    singleGear: true,
+    // Flat torque up to base speed, then constant power
+    torque: (r) => (r < 0.3 ? 0.85 : 0.85 * 0.3 / r),
+  },
+};
+
+export const resolveEngine = (stats: CarStats): EngineProfile =>
+  ENGINE_PROFILES[stats.engine ?? 'STOCK'];
@@ -0,0 +1,62 @@
+import { CarStats, Gearbox } from '../types';
+import {
+  GEAR_RATIOS, MIN_GEARS, MAX_GEARS, MIN_GEAR_RATIO, MAX_GEAR_RATIO, MAX_FINAL_DRIVE, WHEEL_RADIUS
+} from '../constants';
+import { resolveEngine, ELECTRIC_GEAR_RATIO } from './engineProfiles';
+
+// Gearing math shared by the physics engine and the gearbox tuning screen.
+
+// Smallest gap between neighbouring gears so ratios stay strictly descending
+const MIN_RATIO_STEP = 0.05;
+
+// Final Drive Ratio: Higher Top Speed stat = Lower numerical ratio (longer gears).
+// With a custom gearbox this is the tallest final drive the build may run.
+export const finalDriveForStat = (topSpeed: number): number =>
+  4.5 - ((topSpeed - 1) / 9) * 2.0;
+
+export const stockGearbox = (topSpeed: number): Gearbox => ({
+  ratios: [...GEAR_RATIOS],
+  finalDrive: finalDriveForStat(topSpeed),
+});
+
+// Single-gear engines (EV) only take the final drive from a custom box
+export const resolveGearbox = (stats: CarStats): Gearbox => {
+  const gearbox = stats.gearbox ?? stockGearbox(stats.topSpeed);
+  if (resolveEngine(stats).singleGear) return { ratios: [ELECTRIC_GEAR_RATIO], finalDrive: gearbox.finalDrive };
+  return gearbox;
+};
+
+export const gearCount = (stats: CarStats): number => resolveGearbox(stats).ratios.length;
+
+// Geometric spread between a first and last ratio, the usual shape of a close-ratio box
+export const spreadRatios = (count: number, first: number, last: number): number[] =>
+  Array.from({ length: count }, (_, i) =>
+    Math.round(first * Math.pow(last / first, i / (count - 1)) * 100) / 100);
+
+// Forces a gearbox into the legal range for a build
+export const clampGearbox = (gearbox: Gearbox, topSpeed: number): Gearbox => {
+  const count = Math.min(MAX_GEARS, Math.max(MIN_GEARS, gearbox.ratios.length));
+  const ratios = gearbox.ratios.slice(0, count);
+  while (ratios.length < count) ratios.push(ratios[ratios.length - 1] - MIN_RATIO_STEP);
+
+  for (let i = 0; i < count; i++) {
+    const upper = i === 0 ? MAX_GEAR_RATIO : ratios[i - 1] - MIN_RATIO_STEP;
+    const lower = MIN_GEAR_RATIO + (count - 1 - i) * MIN_RATIO_STEP;
+    ratios[i] = Math.min(upper, Math.max(lower, ratios[i]));
+  }
+
+  return {
+    ratios,
+    finalDrive: Math.min(MAX_FINAL_DRIVE, Math.max(finalDriveForStat(topSpeed), gearbox.finalDrive)),
+  };
+};
+
+const WHEEL_CIRCUMFERENCE = 2 * Math.PI * WHEEL_RADIUS;
+
+// Engine RPM when the wheels are turning at `speed` (m/s) with no slip
+export const rpmAtSpeed = (speed: number, ratio: number, finalDrive: number): number =>
+  (speed / WHEEL_CIRCUMFERENCE) * ratio * finalDrive * 60;
+
+// Road speed (m/s) at a given engine RPM with no slip
+export const speedAtRpm = (rpm: number, ratio: number, finalDrive: number): number =>
+  (rpm / 60 / (ratio * finalDrive)) * WHEEL_CIRCUMFERENCE;
@@ -1,44 +1,98 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Opponent, RaceResult } from '../types';
+import { CrewChiefReport, MAX_PIT_TALK_LENGTH } from './crewChief';
+import { LlmSchema } from './llm';
+import { createLlmClientFromConfig } from './llmProviders';
+import {
+  GeneratedOpponent, generateLocalOpponent, MAX_NAME_LENGTH, MAX_CAR_NAME_LENGTH, MAX_TAUNT_LENGTH
+} from './opponentGenerator';
+import { randomSeed } from './rng';
+import {
+  RaceRecap, buildRecapTelemetry, templateRecap, MAX_COMMENTARY_LENGTH, MAX_RIVAL_REACTION_LENGTH
+} from './raceRecap';
 
-const getClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) return null;
-  return new GoogleGenAI({ apiKey });
+// Game-facing LLM requests. The provider (Gemini, OpenAI-compatible, mock or none)
+// comes from configuration; see llmProviders.ts.
+const llm = createLlmClientFromConfig();
+
+const OPPONENT_SCHEMA = {
+  name: { type: 'string', description: 'Cool street racer name', maxLength: MAX_NAME_LENGTH },
+  carName: { type: 'string', description: 'Fictional car model name', maxLength: MAX_CAR_NAME_LENGTH },
+  taunt: { type: 'string', description: 'A short, aggressive but PG race taunt', maxLength: MAX_TAUNT_LENGTH },
+} satisfies LlmSchema;
+
+// LLM-written rival with the local generator's paint and seed; offline or on any failure the
+// whole rival comes from the local generator, so the same seed gives the same rival.
+export const generateOpponent = async (playerLevel: number, seed: number = randomSeed()): Promise<GeneratedOpponent> => {
+  const local = generateLocalOpponent(seed);
+  if (!llm) return local;
+
+  try {
+    const generated = await llm.requestJson({
+      task: 'opponent',
+      prompt: `Generate a fictional street racer opponent for a drag racing game. The player level is ${playerLevel} (1-10 scale). Variation #${seed}.`,
+      schema: OPPONENT_SCHEMA,
+    });
+    return { ...generated, color: local.color, seed };
+  } catch (error) {
+    console.error("Error generating opponent:", error);
+    return local;
+  }
 };
 
-export const generateOpponent = async (playerLevel: number): Promise<{ name: string; carName: string; taunt: string } | null> => {
-  const client = getClient();
-  if (!client) return null;
+const RECAP_SCHEMA = {
+  commentary: {
+    type: 'string',
+    description: 'Drag strip announcer call of the run, naming a specific moment (a shift, the launch, the margin)',
+    maxLength: MAX_COMMENTARY_LENGTH,
+  },
+  rivalReaction: {
+    type: 'string',
+    description: "The rival's PG one-liner about the race, in character",
+    maxLength: MAX_RIVAL_REACTION_LENGTH,
+  },
+} satisfies LlmSchema;
+
+// Commentary written from the race telemetry; the templates cover offline and failures
+export const generateRaceRecap = async (result: RaceResult, opponent: Opponent): Promise<RaceRecap> => {
+  if (!llm || opponent.isGhost) return templateRecap(result, opponent);
 
   try {
-    const response = await client.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Generate a fictional street racer opponent for a drag racing game. The player level is ${playerLevel} (1-10 scale). 
-      Return a JSON object with:
-      - name: Cool street racer name (max 15 chars)
-      - carName: Fictional car model name (max 15 chars)
-      - taunt: A short, aggressive but PG race taunt (max 60 chars)
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            carName: { type: Type.STRING },
-            taunt: { type: Type.STRING },
-          },
-          required: ["name", "carName", "taunt"]
-        }
-      }
+    return await llm.requestJson({
+      task: 'recap',
+      prompt: `You are the announcer at a street drag race. The player raced ${opponent.name} in a ${opponent.carName}. ` +
+        `Rival's pre-race taunt: "${opponent.taunt}". Call the race from this telemetry (times in seconds, ` +
+        `margin > 0 means the player was ahead; shift grades are PERFECT, GOOD, EARLY or LATE):\n` +
+        JSON.stringify(buildRecapTelemetry(result)),
+      schema: RECAP_SCHEMA,
     });
+  } catch (error) {
+    console.error("Error generating race recap:", error);
+    return templateRecap(result, opponent);
+  }
+};
 
-    if (response.text) {
-        return JSON.parse(response.text);
-    }
-    return null;
+const ADVICE_SCHEMA = {
+  pitTalk: {
+    type: 'string',
+    description: "A gruff drag racing crew chief's one-line take on the advice, keeping its numbers",
+    maxLength: MAX_PIT_TALK_LENGTH,
+  },
+} satisfies LlmSchema;
+
+// Optional flavour over the crew chief's advice; null offline or on failure (the advice stands on its own)
+export const phraseCrewChiefAdvice = async (report: CrewChiefReport): Promise<string | null> => {
+  if (!llm || !report.advice.length) return null;
+
+  try {
+    const { pitTalk } = await llm.requestJson({
+      task: 'advice',
+      prompt: `You are the crew chief of a street drag racer. Sum up this tuning advice from their last ${report.runs} runs ` +
+        `in one line, the way you'd say it in the pits:\n` + report.advice.map(a => `- ${a.text}`).join('\n'),
+      schema: ADVICE_SCHEMA,
+    });
+    return pitTalk;
   } catch (error) {
-    console.error("Error generating opponent:", error);
+    console.error("Error phrasing crew chief advice:", error);
     return null;
   }
 };
@@ -0,0 +1,173 @@
+import { CarDesign } from '../types';
+import { Rng, createRng } from './rng';
+
+// Procedural paint jobs for AI rivals, drawn on the same 800x300 canvas the designer uses
+// (car facing right, wheels as percent positions, rear axle first). The plan is pure and
+// seeded; only rendering needs a DOM.
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 300;
+const WHEEL_CENTER_Y = 215;
+
+type Point = [number, number];
+export type BodyStyle = 'WEDGE' | 'MUSCLE' | 'HATCH';
+export type StripeStyle = 'RACING' | 'SLASH' | 'NONE';
+
+export interface LiveryPlan {
+  style: BodyStyle;
+  body: Point[]; // Closed outline
+  window: Point[];
+  wing: Point[] | null; // Separate plate above the tail (the aero measurement sees the gap)
+  stripe: StripeStyle;
+  number: number; // Door number
+  bolt: boolean; // Lightning decal on the rear quarter
+  color: string;
+  accent: string;
+  ink: string; // Black or white, whichever reads on the body color
+  wheels: { x: number; y: number }[]; // Percent, rear first
+}
+
+const range = (rng: Rng, min: number, max: number) => min + rng() * (max - min);
+
+const parseHex = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const toHex = (rgb: number[]) =>
+  `#${rgb.map(c => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('')}`;
+
+// Complementary accent, pulled towards white so it pops on dark bodies
+const accentFor = (color: string): string =>
+  toHex(parseHex(color).map(c => (255 - c) * 0.7 + 255 * 0.3));
+
+const inkFor = (color: string): string => {
+  const [r, g, b] = parseHex(color);
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#0f172a' : '#f8fafc';
+};
+
+const STYLES: BodyStyle[] = ['WEDGE', 'MUSCLE', 'HATCH'];
+
+export const planLivery = (seed: number, color: string): LiveryPlan => {
+  const rng = createRng(seed);
+  const style = STYLES[Math.floor(rng() * STYLES.length)];
+
+  const rearX = range(rng, 150, 200);
+  const frontX = range(rng, 580, 650);
+  const sill = 200;
+  const belt = range(rng, 135, 160);
+  const tail = 40;
+  const nose = 770;
+
+  // Roofline and nose height set the character of each style
+  const roof = style === 'WEDGE' ? range(rng, 95, 115) : style === 'MUSCLE' ? range(rng, 80, 95) : range(rng, 65, 85);
+  const cabinStart = style === 'HATCH' ? range(rng, 120, 170) : range(rng, 260, 310);
+  const cabinEnd = cabinStart + range(rng, 150, 210);
+  const noseTop = style === 'WEDGE' ? sill - 20 : style === 'MUSCLE' ? belt + 5 : belt + 25;
+  const tailTop = style === 'HATCH' ? roof + 20 : belt - range(rng, 0, 15);
+
+  const body: Point[] = [
+    [tail, sill], [tail, tailTop],
+    // Hatchbacks run the roofline straight back to the tail
+    style === 'HATCH' ? [cabinStart - 20, roof + 10] : [Math.max(tail + 10, cabinStart - 50), belt],
+    [cabinStart, roof],
+    [cabinEnd, roof], [cabinEnd + 90, belt],
+    [nose - 10, noseTop], [nose, sill - 5],
+  ];
+  const window: Point[] = [
+    [cabinStart + 12, belt - 4], [cabinStart + 18, roof + 8],
+    [cabinEnd - 8, roof + 8], [cabinEnd + 60, belt - 4],
+  ];
+
+  const wingY = Math.min(roof, tailTop) - range(rng, 10, 30);
+  const wing: Point[] | null = style !== 'HATCH' && rng() < 0.6
+    ? [[tail, wingY], [tail + 110, wingY - 6], [tail + 110, wingY + 8], [tail, wingY + 12]]
+    : null;
+
+  const stripes: StripeStyle[] = ['RACING', 'SLASH', 'NONE'];
+  return {
+    style, body, window, wing,
+    stripe: stripes[Math.floor(rng() * stripes.length)],
+    number: 1 + Math.floor(rng() * 99),
+    bolt: rng() < 0.5,
+    color,
+    accent: accentFor(color),
+    ink: inkFor(color),
+    wheels: [
+      { x: (rearX / CANVAS_WIDTH) * 100, y: (WHEEL_CENTER_Y / CANVAS_HEIGHT) * 100 },
+      { x: (frontX / CANVAS_WIDTH) * 100, y: (WHEEL_CENTER_Y / CANVAS_HEIGHT) * 100 },
+    ],
+  };
+};
+
+const tracePath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  ctx.beginPath();
+  points.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+  ctx.closePath();
+};
+
+export const renderLivery = (plan: LiveryPlan): CarDesign => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+  ctx.lineJoin = 'round';
+
+  // Body
+  tracePath(ctx, plan.body);
+  ctx.fillStyle = plan.color;
+  ctx.fill();
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = '#020617';
+  ctx.stroke();
+
+  // Stripes and decals stay inside the bodywork
+  ctx.save();
+  tracePath(ctx, plan.body);
+  ctx.clip();
+  ctx.fillStyle = plan.accent;
+  if (plan.stripe === 'RACING') {
+    ctx.fillRect(0, 160, CANVAS_WIDTH, 12);
+    ctx.fillRect(0, 178, CANVAS_WIDTH, 6);
+  } else if (plan.stripe === 'SLASH') {
+    tracePath(ctx, [[420, 110], [470, 110], [400, 210], [350, 210]]);
+    ctx.fill();
+  }
+  if (plan.bolt) {
+    tracePath(ctx, [[110, 150], [140, 150], [125, 170], [150, 170], [95, 200], [115, 175], [95, 175]]);
+    ctx.fillStyle = plan.ink;
+    ctx.fill();
+  }
+  ctx.restore();
+
+  // Glass
+  tracePath(ctx, plan.window);
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+  ctx.fill();
+
+  // Door number roundel
+  const doorX = (plan.window[0][0] + plan.window[3][0]) / 2;
+  ctx.beginPath();
+  ctx.arc(doorX, 175, 20, 0, Math.PI * 2);
+  ctx.fillStyle = '#f8fafc';
+  ctx.fill();
+  ctx.fillStyle = '#020617';
+  ctx.font = 'bold 22px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(plan.number), doorX, 176);
+
+  if (plan.wing) {
+    tracePath(ctx, plan.wing);
+    ctx.fillStyle = plan.accent;
+    ctx.fill();
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = '#020617';
+    ctx.stroke();
+  }
+
+  return { imageData: canvas.toDataURL(), wheelPositions: plan.wheels };
+};
+
+export const generateLivery = (seed: number, color: string): CarDesign =>
+  renderLivery(planLivery(seed, color));
@@ -0,0 +1,108 @@
+// Provider-agnostic JSON requests to a language model.
+// Every call is bounded by a timeout, validated against a flat string schema
+// (over-long fields are clamped, missing ones rejected) and cached.
+
+export interface LlmStringField {
+  type: 'string';
+  description: string;
+  maxLength: number;
+}
+
+export type LlmSchema = Record<string, LlmStringField>;
+
+export interface LlmJsonRequest {
+  task: string; // Short id for the kind of request, e.g. "opponent" (fixtures are keyed by it)
+  prompt: string;
+  schema: LlmSchema;
+  cacheKey?: string; // Defaults to the task and prompt
+}
+
+export interface LlmProvider {
+  name: string;
+  // Resolves with the model's parsed JSON; must honour the abort signal
+  generateJson: (request: LlmJsonRequest, signal: AbortSignal) => Promise<unknown>;
+}
+
+export type LlmErrorKind = 'TIMEOUT' | 'PROVIDER' | 'INVALID';
+
+export class LlmError extends Error {
+  constructor(public kind: LlmErrorKind, message: string) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+export type LlmResponse<S extends LlmSchema> = { [K in keyof S]: string };
+
+// Checks the model's output against the schema and trims fields to their max length
+export const validateResponse = <S extends LlmSchema>(schema: S, value: unknown): LlmResponse<S> => {
+  if (typeof value !== 'object' || value === null) throw new LlmError('INVALID', 'response is not an object');
+  const result = {} as Record<string, string>;
+  for (const [key, field] of Object.entries(schema)) {
+    const raw = (value as Record<string, unknown>)[key];
+    if (typeof raw !== 'string' || raw.trim().length === 0) throw new LlmError('INVALID', `missing field "${key}"`);
+    result[key] = raw.trim().slice(0, field.maxLength).trimEnd();
+  }
+  return result as LlmResponse<S>;
+};
+
+// Schema as plain text for providers without native structured output
+export const describeSchema = (schema: LlmSchema): string =>
+  Object.entries(schema)
+    .map(([key, field]) => `- ${key}: ${field.description} (max ${field.maxLength} chars)`)
+    .join('\n');
+
+export interface LlmClientOptions {
+  timeoutMs: number;
+  retries: number; // Extra attempts after a timeout or provider error (invalid output is not retried)
+  cacheSize: number;
+}
+
+export interface LlmClient {
+  provider: string;
+  requestJson: <S extends LlmSchema>(request: LlmJsonRequest & { schema: S }) => Promise<LlmResponse<S>>;
+}
+
+const withTimeout = async <T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LlmError('TIMEOUT', `no response after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const createLlmClient = (provider: LlmProvider, options: LlmClientOptions): LlmClient => {
+  // Insertion-ordered, so the first key is the oldest
+  const cache = new Map<string, Record<string, string>>();
+
+  const requestJson = async <S extends LlmSchema>(request: LlmJsonRequest & { schema: S }): Promise<LlmResponse<S>> => {
+    const key = `${provider.name}:${request.cacheKey ?? `${request.task}:${request.prompt}`}`;
+    const cached = cache.get(key);
+    if (cached) return cached as LlmResponse<S>;
+
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= options.retries; attempt++) {
+      try {
+        const raw = await withTimeout(options.timeoutMs, signal => provider.generateJson(request, signal));
+        const response = validateResponse(request.schema, raw);
+        cache.set(key, response);
+        if (cache.size > options.cacheSize) cache.delete(cache.keys().next().value!);
+        return response;
+      } catch (error) {
+        lastError = error;
+        if (error instanceof LlmError && error.kind === 'INVALID') break;
+      }
+    }
+    throw lastError instanceof LlmError ? lastError : new LlmError('PROVIDER', String(lastError));
+  };
+
+  return { provider: provider.name, requestJson };
+};
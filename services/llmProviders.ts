@@ -0,0 +1,154 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { LlmError, LlmJsonRequest, LlmProvider, LlmClient, createLlmClient, describeSchema } from './llm';
+
+// LLM backends and the configuration that picks one.
+//
+//   LLM_PROVIDER   gemini | openai | mock | offline (default: gemini with an API key, otherwise offline)
+//   LLM_MODEL      Model name (gemini-2.5-flash / gpt-4o-mini by default)
+//   LLM_BASE_URL   OpenAI-compatible endpoint, e.g. http://localhost:8787/v1 for `npm run mock-llm`
+//   LLM_API_KEY    Key for the OpenAI-compatible endpoint (Gemini uses GEMINI_API_KEY)
+//   LLM_TIMEOUT_MS Per-attempt timeout (default 8000)
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock' | 'offline';
+
+export interface LlmConfig {
+  provider: LlmProviderId;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+export const llmConfigFromEnv = (): LlmConfig => {
+  const provider = (process.env.LLM_PROVIDER || (process.env.API_KEY ? 'gemini' : 'offline')) as LlmProviderId;
+  return {
+    provider,
+    model: process.env.LLM_MODEL || undefined,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    apiKey: (provider === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY) || undefined,
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 8000,
+  };
+};
+
+const instructions = (request: LlmJsonRequest) =>
+  `${request.prompt}\n\nReturn a JSON object with:\n${describeSchema(request.schema)}`;
+
+// --- Gemini ---
+export const createGeminiProvider = (apiKey: string, model = 'gemini-2.5-flash'): LlmProvider => {
+  const client = new GoogleGenAI({ apiKey });
+  return {
+    name: `gemini/${model}`,
+    generateJson: async (request, signal) => {
+      const response = await client.models.generateContent({
+        model,
+        contents: instructions(request),
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(Object.keys(request.schema).map(key => [key, { type: Type.STRING }])),
+            required: Object.keys(request.schema),
+          },
+        },
+      });
+      if (!response.text) throw new LlmError('PROVIDER', 'empty response');
+      try {
+        return JSON.parse(response.text);
+      } catch {
+        throw new LlmError('INVALID', 'response is not JSON');
+      }
+    },
+  };
+};
+
+// --- OpenAI-compatible chat completions (OpenAI, local servers, the mock server) ---
+export const createOpenAIProvider = (baseUrl: string, model = 'gpt-4o-mini', apiKey?: string): LlmProvider => ({
+  name: `openai/${model}@${baseUrl}`,
+  generateJson: async (request, signal) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: `Task: ${request.task}. Reply with a single JSON object and nothing else.` },
+          { role: 'user', content: instructions(request) },
+        ],
+      }),
+    });
+    if (!response.ok) throw new LlmError('PROVIDER', `HTTP ${response.status}`);
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new LlmError('INVALID', 'no message content');
+    try {
+      return JSON.parse(content);
+    } catch {
+      throw new LlmError('INVALID', 'message content is not JSON');
+    }
+  },
+});
+
+// --- Mock ---
+// Canned answers per task; the prompt is hashed so different prompts get different fixtures
+export type LlmFixture = (prompt: string, pick: <T>(items: T[]) => T) => unknown;
+
+export const MOCK_FIXTURES: Record<string, LlmFixture> = {
+  opponent: (_prompt, pick) => ({
+    name: pick(['Mock Maverick', 'Fixture Fury', 'Stub Stallion']),
+    carName: pick(['Testarossa', 'Mockingbird GT', 'Null Pointer']),
+    taunt: pick(['Your tests pass. Your launches do not.', 'I was hard-coded to beat you.']),
+  }),
+  recap: (prompt, pick) => {
+    const won = prompt.includes('"won":true');
+    return {
+      commentary: won ? 'Mock call: a clean pass and the win light comes on!' : 'Mock call: not this time, the rival takes it.',
+      rivalReaction: pick(['Fixture says rematch.', 'Deterministic and still faster.']),
+    };
+  },
+  advice: (_prompt, pick) => ({
+    pitTalk: pick(['Mock chief: the numbers say it, so trust the numbers.', 'Mock chief: fix the top item and we go again.']),
+  }),
+};
+
+const hash = (text: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  return h >>> 0;
+};
+
+export const mockResponse = (task: string, prompt: string, fixtures: Record<string, LlmFixture> = MOCK_FIXTURES): unknown => {
+  const fixture = fixtures[task];
+  if (!fixture) throw new LlmError('PROVIDER', `no mock fixture for task "${task}"`);
+  let h = hash(prompt);
+  return fixture(prompt, items => items[(h = Math.imul(h, 48271) >>> 0) % items.length]);
+};
+
+export const createMockProvider = (fixtures: Record<string, LlmFixture> = MOCK_FIXTURES): LlmProvider => ({
+  name: 'mock',
+  generateJson: async (request) => mockResponse(request.task, request.prompt, fixtures),
+});
+
+// Null when the game should stay fully offline (callers fall back to local generators)
+export const createProviderFromConfig = (config: LlmConfig): LlmProvider | null => {
+  switch (config.provider) {
+    case 'gemini':
+      return config.apiKey ? createGeminiProvider(config.apiKey, config.model) : null;
+    case 'openai':
+      return config.baseUrl ? createOpenAIProvider(config.baseUrl, config.model, config.apiKey) : null;
+    case 'mock':
+      return createMockProvider();
+    default:
+      return null;
+  }
+};
+
+export const createLlmClientFromConfig = (config: LlmConfig = llmConfigFromEnv()): LlmClient | null => {
+  const provider = createProviderFromConfig(config);
+  return provider && createLlmClient(provider, { timeoutMs: config.timeoutMs, retries: 1, cacheSize: 100 });
+};
@@ -0,0 +1,33 @@
+import { CarSnapshot, CarStats, RaceInput, TrackId, TreeType, VersusEntry, VersusResult } from '../types';
+
+// Messages between the game and the online relay (scripts/relayServer.ts), sent as JSON.
+//
+// A race: the host creates a lobby and shares the code, the rival joins with it and both
+// get `start`. Each player does their burnout and sends `staged` with the car they're racing
+// (it may have changed in the Garage or worn since they joined); once both have, `tree`
+// starts both trees together. While racing, `state` messages are forwarded to the other
+// player. When a car is done its driver sends `finish` with every input they made, the
+// relay re-runs both passes from those inputs and sends the `result`.
+
+export type ClientMessage =
+  | { type: 'create'; player: VersusEntry; trackId: TrackId; treeType: TreeType }
+  | { type: 'join'; code: string; player: VersusEntry }
+  | { type: 'staged'; stats: CarStats }
+  | { type: 'state'; car: CarSnapshot }
+  | { type: 'finish'; inputs: RaceInput[] }
+  | { type: 'rematch' };
+
+export type ServerMessage =
+  | { type: 'lobby'; code: string }
+  | { type: 'start'; seed: number; trackId: TrackId; treeType: TreeType; opponent: VersusEntry }
+  | { type: 'tree' }
+  | { type: 'state'; car: CarSnapshot }
+  | { type: 'result'; result: VersusResult } // Slip 0 is always the recipient's
+  | { type: 'left' }
+  | { type: 'error'; message: string };
+
+export const LOBBY_CODE_LENGTH = 4;
+// No 0/O or 1/I, so codes can be read out loud
+export const LOBBY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8790';
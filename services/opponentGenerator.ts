@@ -0,0 +1,121 @@
+import { Rng, createRng } from './rng';
+
+// Offline rival generator: names, cars, taunts and paint from themed word banks.
+// Same seed, same rival. Length limits match the Gemini prompt.
+
+export const MAX_NAME_LENGTH = 15;
+export const MAX_CAR_NAME_LENGTH = 15;
+export const MAX_TAUNT_LENGTH = 60;
+
+export interface GeneratedOpponent {
+  name: string;
+  carName: string;
+  taunt: string;
+  color: string;
+  seed: number; // Also drives the rival's livery
+}
+
+interface Theme {
+  adjectives: string[];
+  nouns: string[];
+  makes: string[];
+  models: string[];
+  taunts: string[]; // {car} and {noun} are filled in
+  colors: string[];
+}
+
+const THEMES: Theme[] = [
+  // Neon night cruisers
+  {
+    adjectives: ['Neon', 'Static', 'Laser', 'Chrome', 'Pulse', 'Glitch'],
+    nouns: ['Ghost', 'Viper', 'Comet', 'Flux', 'Halo', 'Wraith'],
+    makes: ['Vektor', 'Lumen', 'Nexa', 'Synth'],
+    models: ['GT', 'RS', 'X9', 'Zero', 'Nova'],
+    taunts: [
+      "You'll only see my tail lights, kid.",
+      'The {car} glows brighter than your future.',
+      'Blink and the {noun} is gone.',
+      "Hope you like the view from behind.",
+    ],
+    colors: ['#ff0055', '#d946ef', '#22d3ee', '#a3e635'],
+  },
+  // Old-school American muscle
+  {
+    adjectives: ['Big', 'Iron', 'Dusty', 'Rusty', 'Outlaw', 'Smokin'],
+    nouns: ['Hank', 'Bull', 'Mustang', 'Diesel', 'Hammer', 'Jack'],
+    makes: ['Ridgeline', 'Thunder', 'Bulldog', 'Hemi'],
+    models: ['454', 'SS', 'Boss', 'Eight', 'Hauler'],
+    taunts: [
+      "There's no replacement for displacement.",
+      'My {car} eats kids like you for breakfast.',
+      "Go home and tune your lawnmower, kid.",
+      'Smell that? That is your clutch burning.',
+    ],
+    colors: ['#ef4444', '#f97316', '#1d4ed8', '#facc15'],
+  },
+  // Tuner scene
+  {
+    adjectives: ['Drift', 'Turbo', 'Boost', 'Touge', 'Redline', 'Midnight'],
+    nouns: ['Kaze', 'Ryu', 'Kitsune', 'Sora', 'Hayate', 'Rin'],
+    makes: ['Akira', 'Hoshi', 'Kaiten', 'Shin'],
+    models: ['R34', 'Type-S', 'Evo', 'Spec-R', 'Turbo'],
+    taunts: [
+      'Boost is on. Are you, rookie?',
+      'The {car} was built in a garage like yours. Better.',
+      "Hear that flutter? That's goodbye.",
+      "{noun} doesn't lose on home turf.",
+    ],
+    colors: ['#f8fafc', '#0ea5e9', '#eab308', '#10b981'],
+  },
+  // Street outlaws
+  {
+    adjectives: ['Dirty', 'Lucky', 'Slick', 'Mad', 'Quick', 'Shady'],
+    nouns: ['Vinnie', 'Rook', 'Jinx', 'Blade', 'Dice', 'Knox'],
+    makes: ['Street', 'Alley', 'Backlot', 'Hustle'],
+    models: ['King', 'Rat', 'Runner', 'Cutter', 'Sleeper'],
+    taunts: [
+      "Pink slips or go home, rookie.",
+      'The {car} has never lost a grudge match.',
+      'I bet my ride. You bet your pride.',
+      "{noun} says you'll red light. {noun} is never wrong.",
+    ],
+    colors: ['#64748b', '#b91c1c', '#16a34a', '#9333ea'],
+  },
+];
+
+const pick = <T>(rng: Rng, items: T[]): T => items[Math.floor(rng() * items.length)];
+
+// Tries the grammar a few times for a string that fits, then falls back to the shortest form
+const fitting = (rng: Rng, max: number, build: () => string, fallback: string): string => {
+  for (let i = 0; i < 5; i++) {
+    const value = build();
+    if (value.length <= max) return value;
+  }
+  return fallback.slice(0, max);
+};
+
+export const generateLocalOpponent = (seed: number): GeneratedOpponent => {
+  const rng = createRng(seed);
+  const theme = pick(rng, THEMES);
+  const noun = pick(rng, theme.nouns);
+
+  const name = fitting(rng, MAX_NAME_LENGTH, () => {
+    switch (Math.floor(rng() * 3)) {
+      case 0: return `${pick(rng, theme.adjectives)} ${noun}`;
+      case 1: return `${noun} ${pick(rng, theme.adjectives)}`;
+      default: return noun;
+    }
+  }, noun);
+
+  const carName = fitting(rng, MAX_CAR_NAME_LENGTH,
+    () => `${pick(rng, theme.makes)} ${pick(rng, theme.models)}`,
+    pick(rng, theme.makes));
+
+  const taunt = fitting(rng, MAX_TAUNT_LENGTH,
+    () => pick(rng, theme.taunts)
+      .replace(/\{car\}/g, carName)
+      .replace(/\{noun\}/g, noun),
+    'See you at the finish line.');
+
+  return { name, carName, taunt, color: pick(rng, theme.colors), seed };
+};
@@ -0,0 +1,98 @@
+import { generateOpponent } from './geminiService';
+import { GeneratedOpponent, generateLocalOpponent } from './opponentGenerator';
+import { randomSeed } from './rng';
+
+// Rivals generated ahead of time, so a race never waits on the network.
+// Unused rivals and the names already served survive reloads in localStorage.
+
+const POOL_KEY = 'ndr_opponent_pool';
+const SERVED_KEY = 'ndr_served_names';
+const MAX_SERVED_NAMES = 200;
+
+interface PooledOpponent {
+  level: number; // Player level the rival was written for
+  opponent: GeneratedOpponent;
+}
+
+export interface OpponentPoolOptions {
+  size: number; // Rivals to keep on hand
+  lowWater: number; // Refill once the pool drops to this many
+}
+
+export interface OpponentPool {
+  // Best-matching rival for the level, instantly; generated locally if the pool is empty
+  take: (level: number) => GeneratedOpponent;
+  // Tops the pool up in the background; a no-op while a refill is already running
+  refill: (level: number) => Promise<void>;
+  count: () => number;
+}
+
+const load = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) {
+    console.error(`Failed to load ${key}`, e);
+    return fallback;
+  }
+};
+
+const nameKey = (opponent: GeneratedOpponent) => opponent.name.trim().toLowerCase();
+
+export const createOpponentPool = ({ size, lowWater }: OpponentPoolOptions): OpponentPool => {
+  let pool: PooledOpponent[] = load(POOL_KEY, []);
+  let served: string[] = load(SERVED_KEY, []);
+  let refilling: Promise<void> | null = null;
+
+  // A full or private-mode storage only costs the pool its persistence, never a race start
+  const save = () => {
+    try {
+      localStorage.setItem(POOL_KEY, JSON.stringify(pool));
+      localStorage.setItem(SERVED_KEY, JSON.stringify(served));
+    } catch (e) {
+      console.error("Failed to save the opponent pool", e);
+    }
+  };
+
+  const isTaken = (opponent: GeneratedOpponent) => {
+    const key = nameKey(opponent);
+    return served.includes(key) || pool.some(p => nameKey(p.opponent) === key);
+  };
+
+  const markServed = (opponent: GeneratedOpponent) => {
+    served = [...served, nameKey(opponent)].slice(-MAX_SERVED_NAMES);
+  };
+
+  const refill = (level: number): Promise<void> => {
+    if (refilling) return refilling;
+    refilling = (async () => {
+      // Bounded, so an offline generator with few unused names can't spin forever
+      for (let attempt = 0; pool.length < size && attempt < size * 3; attempt++) {
+        const opponent = await generateOpponent(level, randomSeed());
+        if (isTaken(opponent)) continue;
+        pool = [...pool, { level, opponent }];
+        save();
+      }
+    })().finally(() => { refilling = null; });
+    return refilling;
+  };
+
+  const take = (level: number): GeneratedOpponent => {
+    let opponent: GeneratedOpponent;
+    if (pool.length > 0) {
+      const best = pool.reduce((a, b) => (Math.abs(b.level - level) < Math.abs(a.level - level) ? b : a));
+      pool = pool.filter(p => p !== best);
+      opponent = best.opponent;
+    } else {
+      // Nothing prefetched: a fresh local rival, avoiding recent names where possible
+      opponent = generateLocalOpponent(randomSeed());
+      for (let i = 0; i < 10 && isTaken(opponent); i++) opponent = generateLocalOpponent(randomSeed());
+    }
+    markServed(opponent);
+    save();
+    if (pool.length <= lowWater) void refill(level);
+    return opponent;
+  };
+
+  return { take, refill, count: () => pool.length };
+};
@@ -0,0 +1,30 @@
+import { CarStats, StatKey } from '../types';
+import {
+  TOTAL_STAT_POINTS, MIN_STAT, MAX_STAT, NITROUS_BOTTLE_SIZES, NITROUS_SHOT_SIZES
+} from '../constants';
+import { Rng } from './rng';
+
+// Distribute points randomly for opponent; `budget` grows with the player's level
+export const generateOpponentStats = (rng: Rng = Math.random, budget = TOTAL_STAT_POINTS): CarStats => {
+    let remaining = Math.min(budget, MAX_STAT * 3);
+    // Start with minimums
+    const stats: CarStats = { acceleration: MIN_STAT, topSpeed: MIN_STAT, grip: MIN_STAT };
+    remaining -= (MIN_STAT * 3);
+
+    // Randomly distribute remaining
+    const keys: StatKey[] = ['acceleration', 'topSpeed', 'grip'];
+    while (remaining > 0) {
+        const randomKey = keys[Math.floor(rng() * keys.length)];
+        if (stats[randomKey] < MAX_STAT) {
+            stats[randomKey]++;
+            remaining--;
+        }
+    }
+
+    // Roll a nitrous kit (bottle size 0 means the car runs without one)
+    stats.nitrous = {
+        bottleSize: NITROUS_BOTTLE_SIZES[Math.floor(rng() * NITROUS_BOTTLE_SIZES.length)],
+        shotSize: NITROUS_SHOT_SIZES[Math.floor(rng() * NITROUS_SHOT_SIZES.length)],
+    };
+    return stats;
+};
@@ -0,0 +1,496 @@
+import { CarStats, DnfReason, DriverProfile, GhostReplay, ShiftGrade } from '../types';
+import {
+  DT, BASE_HORSEPOWER, BASE_WEIGHT,
+  LAUNCH_REV_RATE, LAUNCH_REV_DECAY, LAUNCH_SHOCK_FORCE, LAUNCH_SHOCK_DECAY,
+  SIXTY_FOOT_METERS, NITROUS_LB_PER_HP_SECOND, NITROUS_TORQUE_PER_HP,
+  NITROUS_BOTTLE_KG_PER_LB, NITROUS_GAS_KG_PER_LB, WHEEL_RADIUS, WHEELIE_CRASH_PITCH,
+  AI_PEDAL_GRIP, LIMITER_DAMAGE_PER_SECOND, LUG_SHIFT_DAMAGE, MONEY_SHIFT_DAMAGE, DAMAGE_TORQUE_LOSS,
+  TIRE_BURNOUT_HEAT_RATE, TIRE_SPIN_HEAT_RATE, TIRE_COOL_RATE, TIRE_AIRFLOW_COOLING
+} from '../constants';
+import { Rng } from './rng';
+import { resolveGearbox, rpmAtSpeed } from './gearbox';
+import { EngineProfile, resolveEngine } from './engineProfiles';
+import { resolveChassis, rearWeightShare } from './chassis';
+import { resolveAero } from './aero';
+import { TrackDefinition, SURFACE_GRIP, airDensity } from './tracks';
+import { tireGripFactor } from './tires';
+import { AIShiftReason, ShiftPlan, planShift } from './driverProfiles';
+
+// Pure drag racing simulation. No React, no DOM, no wall clock:
+// time only advances through the tick counter (tick * DT seconds).
+
+// Physics State per Car
+export interface CarPhysicsState {
+  distance: number;
+  speed: number;
+  rpm: number;
+  gear: number;
+  finished: boolean;
+  finishTime: number; // Elapsed time (ET) from launch to the finish line, simulated seconds
+  wheelSpin: boolean;
+  launched: boolean;
+  launchTick: number;
+  reactionTime: number; // Seconds from green to launch (negative = red light)
+  redLight: boolean;
+  throttle: boolean; // Driver holding the throttle on the line
+  launchRpm: number; // RPM at the clutch dump
+  bogging: boolean; // Dumped below the engine's bog RPM and hasn't recovered yet
+  launchSpinTime: number; // Seconds of wheelspin right off the line
+  launchSpinOver: boolean; // Tires have hooked up once since the launch
+  gearSpinTime: number[]; // Seconds of wheelspin in each gear (index 0 = 1st)
+  limiterTime: number; // Seconds on the rev limiter after the launch
+  sixtyFootTime: number; // 0 until the car passes 60 ft
+  nitrousRemaining: number; // lb left in the bottle
+  nitrousActive: boolean;
+  nitrousActivatedAt: number | null; // Seconds after launch the shot was triggered
+  boost: number; // Turbo boost, 0 (off) to 1 (fully spooled)
+  accel: number; // Last step's acceleration, m/s^2 (drives weight transfer)
+  pitch: number; // Nose-up angle in radians (> 0 = front wheels in the air)
+  pitchRate: number; // rad/s
+  dnf: DnfReason | null; // Run ended before the finish line
+  engineDamage: number; // 0 (fresh) to 1 (blown), starting from the car's carried wear
+  tireTemp: number; // Rear tire temperature, °C
+  launchTireTemp: number; // Tire temperature at the clutch dump
+  inBurnout: boolean; // Sitting in the water box: throttle spins the tires instead of revving
+}
+
+// One shift the AI made and why, for the debug overlay and tuning
+export interface AIDecision {
+  tick: number;
+  fromGear: number;
+  rpm: number; // RPM it actually shifted at
+  plannedRpm: number;
+  reason: AIShiftReason;
+  grade: ShiftGrade;
+}
+
+export interface AIDriver {
+  profile: DriverProfile;
+  launchRpm: number; // RPM the AI holds on the line
+  nitrousGear: number; // Gear the AI hits the nitrous in (0 = never)
+  rng: Rng;
+  plan: ShiftPlan | null; // Next shift, rolled once each gear goes in
+  spinTime: number; // Seconds the tires have been spinning
+  pedaling: boolean; // Feathering the throttle until the tires hook up
+  pedalCount: number; // Times it has had to catch the tires this run
+  decisions: AIDecision[];
+}
+
+export const createAIDriver = (profile: DriverProfile, launchRpm: number, nitrousGear: number, rng: Rng): AIDriver => ({
+  profile, launchRpm, nitrousGear, rng, plan: null, spinTime: 0, pedaling: false, pedalCount: 0, decisions: [],
+});
+
+// Tires start at `tireTemp` (the track's ambient temperature when rolling in cold)
+export const createCarState = (stats: CarStats, tireTemp = 20): CarPhysicsState => {
+  const idleRpm = resolveEngine(stats).idleRpm;
+  return {
+    distance: 0, speed: 0, rpm: idleRpm, gear: 1, finished: false, finishTime: 0, wheelSpin: false,
+    launched: false, launchTick: 0, reactionTime: 0, redLight: false,
+    throttle: false, launchRpm: idleRpm, bogging: false, launchSpinTime: 0, launchSpinOver: false,
+    gearSpinTime: [], limiterTime: 0, sixtyFootTime: 0,
+    nitrousRemaining: stats.nitrous?.bottleSize ?? 0, nitrousActive: false, nitrousActivatedAt: null,
+    boost: 0, accel: 0, pitch: 0, pitchRate: 0, dnf: null,
+    engineDamage: stats.engineDamage ?? 0,
+    tireTemp, launchTireTemp: tireTemp, inBurnout: false
+  };
+};
+
+// Simulated seconds on the car's own clock once `tick` has been processed
+export const elapsedSinceLaunch = (car: CarPhysicsState, tick: number): number =>
+  (tick - car.launchTick + 1) * DT;
+
+// --- Launch ---
+// The car leaves the line on `tick`. Reaction time is measured against the green light.
+export const launchCar = (car: CarPhysicsState, tick: number, greenTick: number) => {
+    if (car.launched) return;
+    car.launched = true;
+    car.launchTick = tick;
+    car.reactionTime = (tick - greenTick) * DT;
+    car.redLight = tick < greenTick;
+    car.throttle = false;
+    car.launchRpm = car.rpm;
+    car.launchTireTemp = car.tireTemp;
+};
+
+// Bang-bang throttle that hovers the engine around a target RPM on the line
+export const holdLaunchRpm = (car: CarPhysicsState, targetRpm: number) => {
+    car.throttle = car.rpm < targetRpm;
+};
+
+// --- Nitrous ---
+// One-shot system: once triggered it flows until the bottle is empty.
+export const activateNitrous = (car: CarPhysicsState, tick: number): boolean => {
+    if (!car.launched || isCarDone(car) || car.nitrousActive || car.nitrousRemaining <= 0) return false;
+    car.nitrousActive = true;
+    if (car.nitrousActivatedAt === null) car.nitrousActivatedAt = elapsedSinceLaunch(car, tick) - DT;
+    return true;
+};
+
+// Vehicle mass including the nitrous bottle and whatever gas is left in it
+const vehicleMass = (car: CarPhysicsState, carStats: CarStats): number =>
+  BASE_WEIGHT
+    + (carStats.nitrous?.bottleSize ?? 0) * NITROUS_BOTTLE_KG_PER_LB
+    + car.nitrousRemaining * NITROUS_GAS_KG_PER_LB;
+
+// --- Engine Wear ---
+// Damage only ever goes up during a run; at 1 the engine lets go.
+const damageEngine = (car: CarPhysicsState, amount: number) => {
+    car.engineDamage = Math.min(1, car.engineDamage + amount);
+    if (car.engineDamage >= 1 && car.dnf === null) {
+        car.dnf = 'BLOWN_ENGINE';
+        car.wheelSpin = false;
+    }
+};
+
+// --- Staging ---
+// Free-revving in neutral before launch: RPM climbs while the throttle is held
+// and bounces off the limiter if held too long.
+const revOnTheLine = (car: CarPhysicsState, engine: EngineProfile) => {
+    if (car.throttle) {
+        car.rpm += LAUNCH_REV_RATE * DT;
+        if (car.rpm > engine.redline) {
+            car.rpm = engine.redline - 50;
+            damageEngine(car, LIMITER_DAMAGE_PER_SECOND * DT);
+        }
+    } else {
+        car.rpm = Math.max(engine.idleRpm, car.rpm - LAUNCH_REV_DECAY * DT);
+    }
+};
+
+// --- Tires ---
+// Newtonian cooling toward the track's air temperature; airflow speeds it up
+const coolTires = (car: CarPhysicsState, track: TrackDefinition) => {
+    const rate = Math.min(1, (TIRE_COOL_RATE + car.speed * TIRE_AIRFLOW_COOLING) * DT);
+    car.tireTemp += (track.temperature - car.tireTemp) * rate;
+};
+
+// Burnout box: the brakes hold the car while the throttle lights up the rear tires
+const spinInTheBox = (car: CarPhysicsState, engine: EngineProfile) => {
+    const burnoutRpm = engine.redline * 0.7;
+    if (car.throttle) {
+        car.tireTemp += TIRE_BURNOUT_HEAT_RATE * DT;
+        car.rpm = Math.min(burnoutRpm, car.rpm + LAUNCH_REV_RATE * DT);
+    } else {
+        car.rpm = Math.max(engine.idleRpm, car.rpm - LAUNCH_REV_DECAY * DT);
+    }
+};
+
+// Finished or out of the race
+export const isCarDone = (car: CarPhysicsState): boolean =>
+  car.finished || car.dnf !== null;
+
+// Total time from green to finish line; the lower one wins the race
+export const packageTime = (car: CarPhysicsState): number =>
+  car.finished ? car.reactionTime + car.finishTime : Infinity;
+
+// Red lights lose outright (if both foul, the first to leave loses), otherwise lowest package wins
+export const isWinner = (car: CarPhysicsState, rival: CarPhysicsState): boolean => {
+    if (car.redLight && rival.redLight) return car.reactionTime > rival.reactionTime;
+    if (car.redLight) return false;
+    if (rival.redLight) return true;
+    return packageTime(car) < packageTime(rival);
+};
+
+// --- Physics Step ---
+// Advances one car by a single DT. `tick` is the zero-based index of this step.
+export const stepCar = (
+    car: CarPhysicsState,
+    carStats: CarStats,
+    track: TrackDefinition,
+    tick: number,
+    ai?: AIDriver
+) => {
+    if (isCarDone(car)) return;
+    const engine = resolveEngine(carStats);
+    if (!car.launched) {
+        if (car.inBurnout) {
+            spinInTheBox(car, engine);
+        } else {
+            if (ai) holdLaunchRpm(car, ai.launchRpm);
+            revOnTheLine(car, engine);
+        }
+        coolTires(car, track);
+        return;
+    }
+
+    // --- 1. Constants & Stat Mapping ---
+    // Engine Torque Multiplier: Maps 1-10 stat to 1.0x - 1.8x
+    const torqueMult = 1.0 + ((carStats.acceleration - 1) / 9) * 0.8;
+
+    // Gearing: the build's own box, or stock ratios with a Top Speed stat final drive
+    const gearbox = resolveGearbox(carStats);
+    const finalDrive = gearbox.finalDrive;
+
+    // --- 2. Aerodynamics & Environment ---
+    // Drag (Cd) and downforce (Cl) come from the painted silhouette, or the stock body
+    const aero = resolveAero(carStats);
+    // Thin air at altitude or in the heat: less drag, but less downforce too
+    const rho = airDensity(track);
+
+    // Calculate Aero Forces
+    const aeroDrag = 0.5 * rho * aero.cd * aero.frontalArea * car.speed * car.speed;
+    const aeroDownforce = 0.5 * rho * aero.cl * aero.frontalArea * car.speed * car.speed;
+
+    // --- 3. Tire Physics & Friction ---
+    // Coefficient of Friction (mu): Maps 1-10 stat to 0.9 (Street Tires) - 1.6 (Drag Slicks),
+    // scaled by the track's surface prep and how close the tires are to their working temperature
+    const mu = (0.9 + ((carStats.grip - 1) / 9) * 0.7)
+        * SURFACE_GRIP[track.surface]
+        * tireGripFactor(carStats, car.tireTemp);
+
+    // Dynamic Normal Load on Rear Tires (Drive Wheels)
+    // Static split from the chassis, plus weight transfer under acceleration, plus Aero Downforce.
+    // With the nose in the air the rear tires carry the whole car.
+    const gravity = 9.81;
+    const mass = vehicleMass(car, carStats);
+    const chassis = resolveChassis(carStats);
+    const staticRear = mass * gravity * rearWeightShare(chassis);
+    const weightTransfer = mass * car.accel * chassis.cgHeight / chassis.wheelbase;
+    const rearWeightLoad = (car.pitch > 0
+        ? mass * gravity
+        : Math.min(mass * gravity, Math.max(0, staticRear + weightTransfer))) + aeroDownforce;
+
+    // Calculate Traction Limit (The max force tires can put down before slipping)
+    const maxTraction = rearWeightLoad * mu;
+
+    // --- 4. Engine Torque Calculation ---
+    const normRpm = car.rpm / engine.redline;
+    // Torque curve comes from the engine profile
+    let torqueCurve = engine.torque(normRpm);
+    if (car.rpm > engine.redline) torqueCurve = 0;
+
+    // Turbo: boost only builds once the engine is on the turbo, so launches suffer lag
+    if (engine.turbo) {
+        const spoolDelta = engine.turbo.spoolRate * DT;
+        car.boost = car.rpm >= engine.turbo.spoolRpm
+            ? Math.min(1, car.boost + spoolDelta)
+            : Math.max(0, car.boost - spoolDelta);
+        torqueCurve *= 1 + engine.turbo.maxBoost * car.boost;
+    }
+
+    // Bog: dumped the clutch too low, the engine is lugging until it pulls back into the powerband
+    if (tick === car.launchTick) car.bogging = car.launchRpm < engine.bogRpm;
+    if (car.bogging && car.rpm >= engine.bogRpm) car.bogging = false;
+    const bogFactor = car.bogging ? 0.5 + 0.5 * Math.min(1, car.rpm / engine.bogRpm) : 1;
+
+    // Nitrous: flat torque on top of the curve while the shot is flowing
+    let nitrousTorque = 0;
+    if (car.nitrousActive && carStats.nitrous) {
+        nitrousTorque = carStats.nitrous.shotSize * NITROUS_TORQUE_PER_HP;
+        car.nitrousRemaining -= carStats.nitrous.shotSize * NITROUS_LB_PER_HP_SECOND * DT;
+        if (car.nitrousRemaining <= 0) {
+            car.nitrousRemaining = 0;
+            car.nitrousActive = false;
+        }
+    }
+
+    // Worn engines make less power
+    const wearFactor = 1 - DAMAGE_TORQUE_LOSS * car.engineDamage;
+
+    const engineTorque = BASE_HORSEPOWER * torqueMult * Math.max(0, torqueCurve) * bogFactor * wearFactor + nitrousTorque;
+    const currentGearRatio = gearbox.ratios[car.gear - 1];
+
+    // Force attempted to be applied to the ground
+    let driveForce = (engineTorque * currentGearRatio * finalDrive) / WHEEL_RADIUS;
+
+    // Clutch dump: flywheel energy stored at launch RPM hits the tires as a decaying shock
+    const sinceLaunch = elapsedSinceLaunch(car, tick);
+    driveForce += LAUNCH_SHOCK_FORCE * engine.flywheel * (car.launchRpm - engine.idleRpm) * Math.exp(-sinceLaunch / LAUNCH_SHOCK_DECAY);
+
+    // --- 5. Grip Check (Static vs Kinetic Friction) ---
+    if (driveForce > maxTraction && ai?.pedaling) {
+        // AI feathering the throttle: just under the limit, so the tires stay hooked
+        driveForce = maxTraction * AI_PEDAL_GRIP;
+        car.wheelSpin = false;
+    } else if (driveForce > maxTraction) {
+        car.wheelSpin = true;
+        // Kinetic Friction Penalty: Once spinning, grip drops significantly (0.8x)
+        // This simulates "blowing the tires off" - you must throttle down (or shift) to recover
+        let kineticGrip = 0.8;
+        // Off the line the penalty scales with how hard the clutch dump overpowered the tires
+        if (!car.launchSpinOver) kineticGrip *= Math.max(0.5, Math.sqrt(maxTraction / driveForce));
+        driveForce = maxTraction * kineticGrip;
+    } else {
+        car.wheelSpin = false;
+        // If not spinning, we apply full requested force
+        if (ai) ai.pedaling = false;
+    }
+
+    // Spinning tires heat up; air over them cools them back down
+    if (car.wheelSpin) {
+        car.tireTemp += TIRE_SPIN_HEAT_RATE * DT;
+        car.gearSpinTime[car.gear - 1] = (car.gearSpinTime[car.gear - 1] ?? 0) + DT;
+    }
+    coolTires(car, track);
+
+    // Initial wheelspin lasts until the tires first hook up
+    if (!car.launchSpinOver) {
+        if (car.wheelSpin) car.launchSpinTime += DT;
+        else car.launchSpinOver = true;
+    }
+
+    // Wheelie: the driver has to feather the throttle to get the nose back down
+    if (car.pitch > 0) driveForce *= Math.max(0, 1 - 2 * car.pitch / WHEELIE_CRASH_PITCH);
+
+    // --- 6. Integration (Force = Mass * Accel) ---
+    const netForce = driveForce - aeroDrag;
+    const accel = netForce / mass;
+    car.accel = accel;
+
+    car.speed += accel * DT;
+    if (car.speed < 0) car.speed = 0;
+    car.distance += car.speed * DT;
+
+    if (car.sixtyFootTime === 0 && car.distance >= SIXTY_FOOT_METERS) {
+        car.sixtyFootTime = sinceLaunch;
+    }
+
+    // --- 6b. Pitch ---
+    // Rotation about the rear contact patch: acceleration lifts the CG, gravity pulls it back
+    // down. The front only leaves the ground once the lift beats the car's static front load.
+    const armX = chassis.cgToRearAxle * Math.cos(car.pitch) - chassis.cgHeight * Math.sin(car.pitch);
+    const armY = chassis.cgHeight * Math.cos(car.pitch) + chassis.cgToRearAxle * Math.sin(car.pitch);
+    const gyration = 0.3 * chassis.wheelbase;
+    const pitchAccel = (accel * armY - gravity * armX)
+        / (chassis.cgToRearAxle ** 2 + chassis.cgHeight ** 2 + gyration ** 2);
+
+    if (car.pitch > 0 || pitchAccel > 0) {
+        car.pitchRate += pitchAccel * DT;
+        car.pitch += car.pitchRate * DT;
+        if (car.pitch <= 0) {
+            // Front wheels back on the ground
+            car.pitch = 0;
+            car.pitchRate = 0;
+        } else if (car.pitch >= WHEELIE_CRASH_PITCH) {
+            // Past the balance point: over it goes
+            car.dnf = 'CRASH';
+            car.wheelSpin = false;
+            return;
+        }
+    }
+
+    // --- 7. RPM Physics ---
+    const targetRpm = rpmAtSpeed(car.speed, currentGearRatio, finalDrive);
+
+    if (car.wheelSpin) {
+        // If spinning, RPM flares up rapidly towards redline
+        car.rpm += 8000 * DT;
+    } else {
+        // If hooked up, RPM matches wheel speed, but cannot drop below idle
+        // We apply a slight lag for 'inertia'
+        car.rpm = car.rpm * 0.8 + Math.max(engine.idleRpm, targetRpm) * 0.2;
+    }
+
+    // Rev Limiter
+    if (car.rpm > engine.redline) {
+        car.rpm = engine.redline - 50; // Hard cut
+        car.speed -= 0.05; // Engine braking/loss of momentum on limiter
+        car.limiterTime += DT;
+        damageEngine(car, LIMITER_DAMAGE_PER_SECOND * DT);
+        if (car.dnf) return;
+    }
+
+    // --- 8. AI Logic ---
+    if (ai) driveAI(car, carStats, engine, ai, tick);
+
+    // --- 9. Finish Check ---
+    if (car.distance >= track.lengthMeters) {
+        car.finished = true;
+        car.finishTime = elapsedSinceLaunch(car, tick);
+    }
+};
+
+// --- Player Shift ---
+// Returns the shift grade, or null if already in top gear.
+export const shiftUp = (car: CarPhysicsState, carStats: CarStats): ShiftGrade | null => {
+    if (isCarDone(car) || !car.launched || car.gear >= resolveGearbox(carStats).ratios.length) return null;
+    const engine = resolveEngine(carStats);
+
+    let grade: ShiftGrade;
+    if (car.rpm > engine.redline - 200) {
+        grade = 'LATE';
+    } else if (car.rpm > engine.shiftMin && car.rpm < engine.shiftMax) {
+        grade = 'PERFECT';
+        car.speed += 1.5; // Small boost for perfect shift
+    } else if (car.rpm < engine.redline * 0.625) {
+        grade = 'EARLY';
+    } else {
+        grade = 'GOOD';
+    }
+
+    // Lugging and money-shifts hurt the engine
+    if (grade === 'EARLY') damageEngine(car, LUG_SHIFT_DAMAGE);
+    if (grade === 'LATE') damageEngine(car, MONEY_SHIFT_DAMAGE);
+
+    car.gear += 1;
+    // Mechanical RPM drop on shift
+    car.rpm = car.rpm * 0.65;
+    // Lifting for the shift bleeds off boost
+    if (engine.turbo) car.boost *= engine.turbo.shiftLoss;
+    return grade;
+};
+
+// --- AI Driver ---
+// Shifts through the same gearbox as the player. The shift point is planned once per gear,
+// then the driver reacts to what the car does: feathering the throttle once the tires have
+// been spinning too long, or pulling the next gear early when the engine stops pulling.
+const driveAI = (car: CarPhysicsState, carStats: CarStats, engine: EngineProfile, ai: AIDriver, tick: number) => {
+    ai.spinTime = car.wheelSpin ? ai.spinTime + DT : 0;
+    if (ai.spinTime >= ai.profile.spinReaction) {
+        ai.pedaling = true;
+        ai.pedalCount++;
+        ai.spinTime = 0;
+    }
+
+    if (car.gear < resolveGearbox(carStats).ratios.length) {
+        if (!ai.plan) ai.plan = planShift(ai.profile, engine, ai.rng);
+
+        let reason: AIShiftReason | null = null;
+        if (car.rpm >= ai.plan.rpm) reason = ai.plan.reason;
+        else if (!car.wheelSpin && car.accel < 0.3 && car.rpm > engine.shiftMin * 0.8) reason = 'NO_PULL';
+
+        if (reason) {
+            const fromGear = car.gear;
+            const rpm = car.rpm;
+            const grade = shiftUp(car, carStats);
+            if (grade) ai.decisions.push({ tick, fromGear, rpm, plannedRpm: ai.plan.rpm, reason, grade });
+            ai.plan = null;
+        }
+    }
+
+    if (ai.nitrousGear > 0 && car.gear >= ai.nitrousGear) activateNitrous(car, tick);
+};
+
+// --- Ghost Playback ---
+// Moves a car along a recorded replay using simulated time instead of physics.
+export const updateGhostCar = (car: CarPhysicsState, replay: GhostReplay, track: TrackDefinition, tick: number) => {
+    if (car.finished || !car.launched) return;
+    const elapsed = elapsedSinceLaunch(car, tick);
+
+    // Find interpolation points
+    // This is a simple linear search; could be optimized but fine for <2000 points
+    const data = replay.data;
+    if (elapsed >= replay.totalTime) {
+        car.finished = true;
+        car.distance = track.lengthMeters;
+        car.finishTime = replay.totalTime;
+        return;
+    }
+
+    // Find frame
+    let i = 0;
+    while (i < data.length - 1 && data[i + 1].t < elapsed) {
+        i++;
+    }
+
+    const p1 = data[i];
+    const p2 = data[i + 1];
+
+    if (p1 && p2) {
+        const range = p2.t - p1.t;
+        const progress = (elapsed - p1.t) / range;
+        car.distance = p1.d + (p2.d - p1.d) * progress;
+    } else if (p1) {
+        car.distance = p1.d;
+    }
+};
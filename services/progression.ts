@@ -0,0 +1,71 @@
+import { PlayerProfile, RaceResult } from '../types';
+import {
+  MAX_LEVEL, LEVEL_XP_STEP, XP_PER_RACE, XP_PER_WIN, XP_PER_PERFECT_SHIFT,
+  XP_PER_MARGIN_SECOND, XP_MARGIN_CAP, STREAK_LEVEL_SHIFT, MAX_STREAK_SHIFT,
+  TOTAL_STAT_POINTS, MIN_STAT, MAX_STAT
+} from '../constants';
+
+// Player XP and levels, and how the player's level picks their rivals.
+
+export const NEW_PLAYER: PlayerProfile = { xp: 0, wins: 0, losses: 0, streak: 0 };
+
+// Total XP needed to reach `level` (level 1 is free)
+export const xpForLevel = (level: number): number =>
+  LEVEL_XP_STEP * (level - 1) * level / 2;
+
+export const levelForXp = (xp: number): number => {
+  let level = 1;
+  while (level < MAX_LEVEL && xp >= xpForLevel(level + 1)) level++;
+  return level;
+};
+
+export interface XpBreakdown {
+  race: number;
+  win: number;
+  perfectShifts: number;
+  margin: number;
+  total: number;
+}
+
+// Winning margin on package time (reaction + ET), seconds; 0 for a loss
+const winningMargin = (result: RaceResult): number => {
+  if (!result.playerWon || !Number.isFinite(result.playerTime)) return 0;
+  const rival = result.enemyReactionTime + result.enemyTime;
+  const player = result.reactionTime + result.playerTime;
+  // A rival who fouled or didn't finish counts as a full margin
+  if (result.enemyRedLight || !Number.isFinite(rival)) return XP_MARGIN_CAP;
+  return Math.min(XP_MARGIN_CAP, Math.max(0, rival - player));
+};
+
+export const raceXp = (result: RaceResult): XpBreakdown => {
+  const race = result.dnf || result.redLight ? 0 : XP_PER_RACE;
+  const win = result.playerWon ? XP_PER_WIN : 0;
+  const perfectShifts = result.perfectShifts * XP_PER_PERFECT_SHIFT;
+  const margin = Math.round(winningMargin(result) * XP_PER_MARGIN_SECOND);
+  return { race, win, perfectShifts, margin, total: race + win + perfectShifts + margin };
+};
+
+export const applyRaceResult = (profile: PlayerProfile, result: RaceResult): PlayerProfile => {
+  const won = result.playerWon;
+  return {
+    xp: profile.xp + raceXp(result).total,
+    wins: profile.wins + (won ? 1 : 0),
+    losses: profile.losses + (won ? 0 : 1),
+    streak: won ? Math.max(0, profile.streak) + 1 : Math.min(0, profile.streak) - 1,
+  };
+};
+
+// --- Matchmaking ---
+// Win streaks pull in tougher rivals, losing streaks softer ones, within a couple of levels
+export const matchmakingLevel = (profile: PlayerProfile): number => {
+  const streak = Math.max(-MAX_STREAK_SHIFT, Math.min(MAX_STREAK_SHIFT, profile.streak));
+  return Math.max(1, Math.min(MAX_LEVEL, levelForXp(profile.xp) + streak * STREAK_LEVEL_SHIFT));
+};
+
+// Stat points the rival gets to spend: the player's budget at mid level, fewer below, more above
+export const opponentStatBudget = (level: number): number =>
+  Math.max(MIN_STAT * 3, Math.min(MAX_STAT * 3, Math.round(TOTAL_STAT_POINTS + (level - 5) * 1.5)));
+
+// Driver skill on the Opponent.difficulty scale (0.8 to 1.2)
+export const opponentDifficulty = (level: number): number =>
+  0.8 + ((level - 1) / (MAX_LEVEL - 1)) * 0.4;
@@ -0,0 +1,99 @@
+import { Opponent, RaceResult } from '../types';
+import { TRACKS } from './tracks';
+
+// Post-race recap: the telemetry the commentary is written from, and the offline templates.
+
+export const MAX_COMMENTARY_LENGTH = 160;
+export const MAX_RIVAL_REACTION_LENGTH = 100;
+
+export interface RaceRecap {
+  commentary: string; // The commentator's call
+  rivalReaction: string; // What the rival says about it
+}
+
+export interface RecapTelemetry {
+  track: string;
+  won: boolean;
+  dnf: string | null;
+  redLight: boolean;
+  rivalRedLight: boolean;
+  reactionTime: number;
+  rivalReactionTime: number;
+  launchRpm: number;
+  wheelspin: number; // Seconds of wheelspin off the line
+  sixtyFoot: number | null;
+  et: number | null;
+  rivalEt: number | null;
+  margin: number | null; // Package-time margin, seconds (> 0 = player ahead)
+  topSpeed: number; // km/h
+  shifts: { gear: string; rpm: number; grade: string }[];
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+const finite = (v: number) => (Number.isFinite(v) ? round3(v) : null);
+
+export const buildRecapTelemetry = (result: RaceResult): RecapTelemetry => {
+  const player = result.reactionTime + result.playerTime;
+  const rival = result.enemyReactionTime + result.enemyTime;
+  return {
+    track: `${TRACKS[result.trackId].name} (${TRACKS[result.trackId].distanceLabel})`,
+    won: result.playerWon,
+    dnf: result.dnf,
+    redLight: result.redLight,
+    rivalRedLight: result.enemyRedLight,
+    reactionTime: round3(result.reactionTime),
+    rivalReactionTime: round3(result.enemyReactionTime),
+    launchRpm: Math.round(result.launchRpm),
+    wheelspin: round3(result.launchWheelspin),
+    sixtyFoot: result.sixtyFootTime > 0 ? round3(result.sixtyFootTime) : null,
+    et: finite(result.playerTime),
+    rivalEt: finite(result.enemyTime),
+    margin: Number.isFinite(player) && Number.isFinite(rival) ? round3(rival - player) : null,
+    topSpeed: Math.round(result.maxSpeed),
+    shifts: result.shifts.map(s => ({ gear: `${s.fromGear}-${s.fromGear + 1}`, rpm: Math.round(s.rpm), grade: s.grade })),
+  };
+};
+
+// --- Offline Templates ---
+// Calls out the single most notable moment of the run, the way a commentator would
+
+const commentaryFor = (t: RecapTelemetry, rival: string): string => {
+  const money = t.shifts.find(s => s.grade === 'LATE');
+  const lugged = t.shifts.find(s => s.grade === 'EARLY');
+  const perfect = t.shifts.filter(s => s.grade === 'PERFECT').length;
+
+  if (t.redLight) return `Red light! Left ${Math.abs(t.reactionTime).toFixed(3)}s early and handed ${rival} the win.`;
+  if (t.dnf === 'CRASH') return `Too much wheelie, way too much! That one went over before the stripe.`;
+  if (t.dnf === 'BLOWN_ENGINE') return `Smoke everywhere! The motor let go at ${t.topSpeed} km/h.`;
+  if (t.rivalRedLight) return `${rival} jumped the tree and it's a free win. ${t.et?.toFixed(3)}s on the board.`;
+  if (t.wheelspin > 0.4) return `Roasted the tires for ${t.wheelspin.toFixed(2)}s off the line. ${t.won ? 'Somehow still got there first.' : 'That cost the race.'}`;
+  if (money) return `Banged the limiter on the ${money.gear} shift at ${money.rpm} rpm. ${t.won ? 'Got away with it.' : 'Ouch.'}`;
+  if (lugged) return `Short-shifted ${lugged.gear} at ${lugged.rpm} rpm and bogged it. ${t.won ? 'Held on anyway.' : 'That was the race.'}`;
+  if (t.margin !== null && Math.abs(t.margin) < 0.02) return `Photo finish! ${Math.abs(t.margin).toFixed(3)}s between them at the stripe.`;
+  if (t.reactionTime < 0.05) return `A ${t.reactionTime.toFixed(3)} light! Practically on the green.`;
+  if (perfect === t.shifts.length && perfect > 0) return `Every shift perfect, ${t.et?.toFixed(3)}s at ${t.topSpeed} km/h. Textbook pass.`;
+  return t.won
+    ? `Takes it by ${t.margin?.toFixed(3)}s with a ${t.et?.toFixed(3)} at ${t.topSpeed} km/h.`
+    : `Came up ${Math.abs(t.margin ?? 0).toFixed(3)}s short. ${rival} takes this one.`;
+};
+
+const reactionFor = (t: RecapTelemetry): string => {
+  if (t.redLight) return `Green means go. Learn your colors.`;
+  if (t.dnf) return `Bring a car that finishes next time.`;
+  if (t.won) {
+    if (t.rivalRedLight) return `I jumped it. Doesn't mean you're faster.`;
+    if (t.margin !== null && t.margin < 0.05) return `That was nothing. Run it back.`;
+    return `${t.rivalReactionTime.toFixed(3)} on the tree... I slept. Won't happen twice.`;
+  }
+  if (t.wheelspin > 0.4) return `Nice smoke show. I was already gone.`;
+  if (t.shifts.some(s => s.grade === 'EARLY' || s.grade === 'LATE')) return `Heard that shift from my lane. Rough.`;
+  return `Close, but close doesn't get the slip.`;
+};
+
+export const templateRecap = (result: RaceResult, opponent: Opponent): RaceRecap => {
+  const t = buildRecapTelemetry(result);
+  return {
+    commentary: commentaryFor(t, opponent.name).slice(0, MAX_COMMENTARY_LENGTH),
+    rivalReaction: reactionFor(t).slice(0, MAX_RIVAL_REACTION_LENGTH),
+  };
+};
@@ -0,0 +1,215 @@
+import { CarStats, DriverProfile, GhostReplay, ShiftGrade, Timeslip, TrackId, TreeType } from '../types';
+import { DT } from '../constants';
+import {
+  CarPhysicsState, AIDriver, createCarState, createAIDriver, stepCar, launchCar,
+  updateGhostCar, isWinner, isCarDone
+} from './physicsEngine';
+import { TreeSchedule, createTreeSchedule, offsetTree } from './christmasTree';
+import { Rng, createRng } from './rng';
+import { resolveEngine } from './engineProfiles';
+import { rollReactionTime, scaleDriver } from './driverProfiles';
+import { TrackDefinition, resolveTrack } from './tracks';
+import { optimalTireTemp } from './tires';
+import { RemoteFeed, createRemoteFeed, updateRemoteCar } from './remoteCar';
+
+// One race between two lanes, advanced tick by tick from the moment the cars roll in.
+// The renderer (RaceTrack) and headless runs (raceSimulator) both drive this,
+// so a seed plus the player's input ticks always reproduces the same race.
+
+export interface RaceLane {
+  car: CarPhysicsState;
+  stats: CarStats;
+  ai?: AIDriver; // Computer driver: launches and shifts on its own
+  ghost?: GhostReplay; // Replay playback instead of physics
+  remote?: RemoteFeed; // Online rival: positioned from network state instead of physics
+  parked?: boolean; // Empty lane in a solo pass: never moves and never holds up the finish
+  autoLaunchTick?: number; // Tick the AI/ghost leaves the line
+}
+
+// BURNOUT: the player is in the water box and the tree waits; STAGING: the tree is running
+export type RacePhase = 'BURNOUT' | 'STAGING';
+
+export interface RaceSession {
+  seed: number; // Same seed, same tree and same AI rolls
+  tick: number; // Next tick to be simulated
+  phase: RacePhase;
+  track: TrackDefinition;
+  tree: TreeSchedule;
+  player: RaceLane;
+  enemy: RaceLane;
+}
+
+export interface RaceSessionOptions {
+  playerStats: CarStats;
+  opponentStats: CarStats;
+  opponentDifficulty?: number;
+  opponentDriver?: DriverProfile; // Defaults to a SMOOTH driver at the opponent's difficulty
+  playerDriver?: DriverProfile; // Hands the player lane to an AI as well (AI-vs-AI races)
+  playerDifficulty?: number;
+  opponentHuman?: boolean; // Second player on the same device: the enemy lane takes inputs like the player's
+  opponentRemote?: boolean; // Online rival: the enemy lane follows their state messages
+  solo?: boolean; // Time trial: nobody in the other lane
+  ghost?: GhostReplay;
+  treeType: TreeType;
+  trackId?: TrackId;
+  burnout?: boolean; // Start the player in the burnout box instead of on the line
+  seed: number;
+}
+
+// AI drivers do their burnout off screen; sharper ones bring the tires in hotter
+const aiTireTemp = (stats: CarStats, difficulty: number, track: TrackDefinition): number => {
+  const skill = Math.min(1, difficulty / 1.2);
+  return track.temperature + (optimalTireTemp(stats) - track.temperature) * skill;
+};
+
+const aiLane = (
+  stats: CarStats, driver: DriverProfile, difficulty: number, track: TrackDefinition, tree: TreeSchedule, rng: Rng
+): RaceLane => ({
+  car: createCarState(stats, aiTireTemp(stats, difficulty, track)),
+  stats,
+  ai: createAIDriver(
+    driver,
+    resolveEngine(stats).launchRpm * driver.launchRpmShare,
+    stats.nitrous?.bottleSize ? driver.nitrousGear : 0,
+    rng
+  ),
+  autoLaunchTick: tree.greenTick + Math.round(rollReactionTime(driver, rng) / DT),
+});
+
+export const createRaceSession = ({
+  playerStats, opponentStats, opponentDifficulty = 1.0, opponentDriver, playerDriver, playerDifficulty = 1.0,
+  opponentHuman = false, opponentRemote = false, solo = false, ghost, treeType, trackId, burnout = false, seed
+}: RaceSessionOptions): RaceSession => {
+  const rng = createRng(seed);
+  const tree = createTreeSchedule(treeType, rng);
+  const track = resolveTrack(trackId);
+
+  const enemy: RaceLane = solo
+    ? { car: createCarState(opponentStats, track.temperature), stats: opponentStats, parked: true }
+    : ghost
+    ? {
+        car: createCarState(opponentStats, track.temperature),
+        stats: opponentStats,
+        ghost,
+        autoLaunchTick: tree.greenTick + Math.round(Math.max(0, ghost.reactionTime ?? 0) / DT),
+      }
+    : opponentHuman
+    ? { car: createCarState(opponentStats, track.temperature), stats: opponentStats }
+    : opponentRemote
+    ? { car: createCarState(opponentStats, track.temperature), stats: opponentStats, remote: createRemoteFeed() }
+    : aiLane(opponentStats, opponentDriver ?? scaleDriver('SMOOTH', opponentDifficulty), opponentDifficulty, track, tree, rng);
+
+  const player: RaceLane = playerDriver
+    ? aiLane(playerStats, playerDriver, playerDifficulty, track, tree, rng)
+    : { car: createCarState(playerStats, track.temperature), stats: playerStats };
+  player.car.inBurnout = burnout && !playerDriver;
+  enemy.car.inBurnout = burnout && (opponentHuman || opponentRemote);
+
+  return {
+    seed,
+    tick: 0,
+    phase: player.car.inBurnout ? 'BURNOUT' : 'STAGING',
+    track,
+    tree,
+    player,
+    enemy,
+  };
+};
+
+// Player inputs take effect on the next simulated tick
+export const launchLane = (session: RaceSession, lane: RaceLane) => {
+  if (session.phase === 'BURNOUT') return;
+  launchCar(lane.car, session.tick, session.tree.greenTick);
+};
+
+// Player rolls out of the water box and up to the line (with a second player, both do);
+// the tree starts from here
+export const leaveBurnoutBox = (session: RaceSession) => {
+  if (session.phase !== 'BURNOUT') return;
+  session.phase = 'STAGING';
+  session.tree = offsetTree(session.tree, session.tick);
+  if (session.enemy.autoLaunchTick !== undefined) session.enemy.autoLaunchTick += session.tick;
+  for (const { car } of [session.player, session.enemy]) {
+    if (!car.inBurnout) continue;
+    car.inBurnout = false;
+    car.throttle = false;
+  }
+};
+
+const stepLane = (session: RaceSession, lane: RaceLane) => {
+  if (lane.autoLaunchTick !== undefined && session.tick >= lane.autoLaunchTick) {
+    launchCar(lane.car, session.tick, session.tree.greenTick);
+  }
+
+  if (lane.ghost) {
+    updateGhostCar(lane.car, lane.ghost, session.track, session.tick);
+  } else if (lane.remote) {
+    updateRemoteCar(lane.car, lane.remote, session.tick - session.tree.greenTick);
+  } else {
+    stepCar(lane.car, lane.stats, session.track, session.tick, lane.ai);
+  }
+};
+
+// Advances the whole race by exactly one DT. A computer lane waits at the line during the burnout.
+export const stepRaceSession = (session: RaceSession) => {
+  stepLane(session, session.player);
+  const { enemy } = session;
+  if (!enemy.parked && (session.phase !== 'BURNOUT' || enemy.car.inBurnout || enemy.remote)) stepLane(session, enemy);
+  session.tick++;
+};
+
+export const isRaceOver = (session: RaceSession): boolean =>
+  isCarDone(session.player.car) && (!!session.enemy.parked || isCarDone(session.enemy.car));
+
+export const didPlayerWin = (session: RaceSession): boolean =>
+  isWinner(session.player.car, session.enemy.car);
+
+// --- Real-time play (RaceTrack, VersusTrack) ---
+
+// Cap on simulation steps per animation frame so a stalled tab doesn't spiral
+const MAX_TICKS_PER_FRAME = 5;
+
+// How long the tree stays on screen after the green
+const TREE_HOLD_TICKS = Math.round(1.5 / DT);
+
+export const SHIFT_FEEDBACK: Record<ShiftGrade, string> = {
+  PERFECT: 'PERFECT!',
+  GOOD: 'GOOD',
+  EARLY: 'EARLY',
+  LATE: 'LATE!',
+};
+
+// Wall-clock time not yet simulated, carried between animation frames
+export interface FrameClock {
+  accumulator: number; // Seconds
+  lastFrame: number | null; // requestAnimationFrame timestamp, ms
+}
+
+export const createFrameClock = (): FrameClock => ({ accumulator: 0, lastFrame: null });
+
+// Runs `step` once per whole DT elapsed since the last frame, decoupled from frame pacing;
+// `step` returns true to stop early (the race is over)
+export const runFrameTicks = (clock: FrameClock, now: number, step: () => boolean) => {
+  const last = clock.lastFrame ?? now;
+  clock.lastFrame = now;
+  clock.accumulator = Math.min(clock.accumulator + (now - last) / 1000, DT * MAX_TICKS_PER_FRAME);
+  while (clock.accumulator >= DT) {
+    clock.accumulator -= DT;
+    if (step()) return;
+  }
+};
+
+export const isTreeShowing = (session: RaceSession): boolean =>
+  session.phase === 'STAGING' && session.tick < session.tree.greenTick + TREE_HOLD_TICKS;
+
+// One lane's slip for a head-to-head result; trap speed in km/h
+export const timeslip = (name: string, car: CarPhysicsState, perfectShifts: number, trapSpeed: number): Timeslip => ({
+  name,
+  reactionTime: car.reactionTime,
+  redLight: car.redLight,
+  sixtyFootTime: car.sixtyFootTime,
+  et: car.finished ? car.finishTime : Infinity,
+  trapSpeed,
+  perfectShifts,
+  dnf: car.dnf,
+});
@@ -0,0 +1,223 @@
+import { CarStats, DnfReason, DriverProfile, RaceInput, ShiftGrade, TrackId, TreeType } from '../types';
+import { DT } from '../constants';
+import {
+  CarPhysicsState, shiftUp, holdLaunchRpm, activateNitrous, isCarDone
+} from './physicsEngine';
+import {
+  createRaceSession, launchLane, leaveBurnoutBox, stepRaceSession, isRaceOver, didPlayerWin
+} from './raceSession';
+import { EngineProfile, resolveEngine } from './engineProfiles';
+
+// Headless races: drive the physics engine without a renderer.
+// Used for tuning analysis and to re-run a race from recorded inputs.
+
+// Decides, before each tick, whether the driver pulls the next gear
+export type ShiftStrategy = (car: CarPhysicsState, tick: number) => boolean;
+
+// Shift as soon as the engine reaches a fixed RPM
+export const fixedRpmShift = (rpm: number): ShiftStrategy =>
+  (car) => car.rpm >= rpm;
+
+// Shift on the first tick inside the engine's PERFECT window
+export const perfectWindowShift = (engine: EngineProfile): ShiftStrategy =>
+  (car) => car.rpm > engine.shiftMin && car.rpm < engine.shiftMax;
+
+// Replays the exact ticks a player shifted on
+export const replayShifts = (shiftTicks: number[]): ShiftStrategy => {
+  const pending = new Set(shiftTicks);
+  return (_car, tick) => pending.has(tick);
+};
+
+export interface SimulatedRaceOptions {
+  stats: CarStats;
+  strategy: ShiftStrategy;
+  reactionTime?: number; // Player's launch delay after green, seconds
+  launchRpm?: number; // RPM the player holds on the line (defaults to the engine's launch RPM)
+  nitrousGear?: number; // Gear the player fires the nitrous in (0 = never)
+  burnoutTime?: number; // Seconds spinning the tires in the water box (0 = skip the burnout)
+  burnoutCooldown?: number; // Seconds the tires sit between the burnout and staging
+  opponentStats: CarStats;
+  opponentDifficulty?: number;
+  opponentDriver?: DriverProfile;
+  treeType?: TreeType;
+  trackId?: TrackId;
+  seed: number;
+  maxTime?: number; // Seconds before a car that can't finish is called a DNF
+}
+
+export interface SimulatedRaceResult {
+  playerTime: number;
+  enemyTime: number;
+  dnf: DnfReason | null;
+  playerWon: boolean;
+  reactionTime: number;
+  enemyReactionTime: number;
+  launchRpm: number;
+  launchWheelspin: number; // Seconds of initial wheelspin
+  launchTireTemp: number; // °C at the clutch dump
+  gearSpinTime: number[]; // Seconds of wheelspin per gear
+  limiterTime: number;
+  sixtyFootTime: number;
+  nitrousActivatedAt: number | null;
+  trapSpeed: number; // km/h at the finish line
+  maxSpeed: number; // km/h
+  perfectShifts: number;
+  engineDamage: number; // Engine wear after the run
+  shiftTicks: number[];
+  shiftGrades: ShiftGrade[];
+}
+
+export const simulateRace = ({
+  stats, strategy, reactionTime = 0.2, launchRpm = resolveEngine(stats).launchRpm, nitrousGear = 0, opponentStats, opponentDifficulty = 1.0, opponentDriver,
+  treeType = 'PRO', trackId, burnoutTime = 0, burnoutCooldown = 0, seed, maxTime = 60
+}: SimulatedRaceOptions): SimulatedRaceResult => {
+  const session = createRaceSession({
+    playerStats: stats, opponentStats, opponentDifficulty, opponentDriver, treeType, trackId, burnout: burnoutTime > 0, seed
+  });
+  const player = session.player.car;
+  const enemy = session.enemy.car;
+
+  if (session.phase === 'BURNOUT') {
+    const burnoutTicks = Math.round(burnoutTime / DT);
+    const boxTicks = burnoutTicks + Math.round(burnoutCooldown / DT);
+    while (session.tick < boxTicks) {
+      player.throttle = session.tick < burnoutTicks;
+      stepRaceSession(session);
+    }
+    leaveBurnoutBox(session);
+  }
+
+  const launchTick = session.tree.greenTick + Math.round(reactionTime / DT);
+
+  const shiftTicks: number[] = [];
+  const shiftGrades: ShiftGrade[] = [];
+  let maxSpeed = 0;
+  let trapSpeed = 0;
+
+  const maxTicks = launchTick + Math.ceil(maxTime / DT);
+  while (session.tick < maxTicks && !isRaceOver(session)) {
+    const tick = session.tick;
+    if (tick < launchTick) holdLaunchRpm(player, launchRpm);
+    if (tick === launchTick) launchLane(session, session.player);
+    if (nitrousGear > 0 && player.gear >= nitrousGear) activateNitrous(player, tick);
+    if (player.launched && !isCarDone(player) && strategy(player, tick)) {
+      const grade = shiftUp(player, stats);
+      if (grade) {
+        shiftTicks.push(tick);
+        shiftGrades.push(grade);
+      }
+    }
+
+    stepRaceSession(session);
+
+    if (player.speed > maxSpeed) maxSpeed = player.speed;
+    if (player.finished && trapSpeed === 0) trapSpeed = player.speed;
+  }
+
+  return {
+    playerTime: player.finished ? player.finishTime : Infinity,
+    enemyTime: enemy.finished ? enemy.finishTime : Infinity,
+    dnf: player.dnf,
+    playerWon: didPlayerWin(session),
+    reactionTime: player.reactionTime,
+    enemyReactionTime: enemy.reactionTime,
+    launchRpm: player.launchRpm,
+    launchWheelspin: player.launchSpinTime,
+    launchTireTemp: player.launchTireTemp,
+    gearSpinTime: player.gearSpinTime,
+    limiterTime: player.limiterTime,
+    sixtyFootTime: player.sixtyFootTime,
+    nitrousActivatedAt: player.nitrousActivatedAt,
+    trapSpeed: trapSpeed * 3.6,
+    maxSpeed: maxSpeed * 3.6,
+    perfectShifts: shiftGrades.filter(g => g === 'PERFECT').length,
+    engineDamage: player.engineDamage,
+    shiftTicks,
+    shiftGrades,
+  };
+};
+
+export interface SimulatedDriver {
+  stats: CarStats;
+  driver: DriverProfile;
+  difficulty: number;
+}
+
+export interface SimulatedAiRaceResult {
+  aTime: number; // ET (Infinity for a DNF)
+  bTime: number;
+  aReactionTime: number;
+  bReactionTime: number;
+  aWon: boolean;
+}
+
+// Two computer drivers, no player input (tournament matches the player isn't in)
+export const simulateAiRace = (
+  a: SimulatedDriver, b: SimulatedDriver, { trackId, treeType = 'PRO', seed, maxTime = 60 }:
+  { trackId?: TrackId; treeType?: TreeType; seed: number; maxTime?: number }
+): SimulatedAiRaceResult => {
+  const session = createRaceSession({
+    playerStats: a.stats, playerDriver: a.driver, playerDifficulty: a.difficulty,
+    opponentStats: b.stats, opponentDriver: b.driver, opponentDifficulty: b.difficulty,
+    treeType, trackId, seed
+  });
+  const maxTicks = session.tree.greenTick + Math.ceil(maxTime / DT);
+  while (session.tick < maxTicks && !isRaceOver(session)) stepRaceSession(session);
+
+  const { car: aCar } = session.player;
+  const { car: bCar } = session.enemy;
+  return {
+    aTime: aCar.finished ? aCar.finishTime : Infinity,
+    bTime: bCar.finished ? bCar.finishTime : Infinity,
+    aReactionTime: aCar.reactionTime,
+    bReactionTime: bCar.reactionTime,
+    aWon: didPlayerWin(session),
+  };
+};
+
+export interface ReplayOptions {
+  stats: CarStats;
+  inputs: RaceInput[];
+  treeType: TreeType;
+  trackId: TrackId;
+  seed: number;
+  maxTime?: number; // Seconds after the last input before a car that can't finish is called a DNF
+}
+
+export interface ReplayedRun {
+  car: CarPhysicsState; // Final state: ET, reaction time, red light, DNF
+  trapSpeed: number; // km/h at the finish line
+  perfectShifts: number;
+}
+
+// Re-runs one lane of a live race (started in the burnout box) from its recorded inputs.
+// The opponent never touches the player's physics, so it isn't needed.
+export const replayRaceInputs = ({ stats, inputs, treeType, trackId, seed, maxTime = 60 }: ReplayOptions): ReplayedRun => {
+  const session = createRaceSession({
+    playerStats: stats, opponentStats: stats, opponentHuman: true, treeType, trackId, burnout: true, seed
+  });
+  const car = session.player.car;
+  // A stable sort keeps inputs on the same tick in the order they were made
+  const queue = [...inputs].sort((a, b) => a.tick - b.tick);
+  const maxTicks = (queue.length ? queue[queue.length - 1].tick : 0) + Math.ceil(maxTime / DT);
+
+  let next = 0;
+  let trapSpeed = 0;
+  let perfectShifts = 0;
+  while (session.tick < maxTicks && !isCarDone(car)) {
+    for (; next < queue.length && queue[next].tick <= session.tick; next++) {
+      switch (queue[next].kind) {
+        case 'THROTTLE_ON': car.throttle = true; break;
+        case 'THROTTLE_OFF': car.throttle = false; break;
+        case 'STAGE': leaveBurnoutBox(session); break;
+        case 'LAUNCH': launchLane(session, session.player); break;
+        case 'SHIFT': if (shiftUp(car, stats) === 'PERFECT') perfectShifts++; break;
+        case 'NITROUS': activateNitrous(car, session.tick); break;
+      }
+    }
+    stepRaceSession(session);
+    if (car.finished && trapSpeed === 0) trapSpeed = car.speed * 3.6;
+  }
+
+  return { car, trapSpeed, perfectShifts };
+};
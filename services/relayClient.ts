@@ -0,0 +1,59 @@
+import { ClientMessage, ServerMessage, DEFAULT_RELAY_URL } from './netProtocol';
+
+// Browser side of the online relay. Messages sent before the socket opens are queued;
+// a dropped connection is reported to listeners as `closed`, apart from the relay's own errors.
+
+export type RelayEvent = ServerMessage | { type: 'closed'; message: string };
+
+export type RelayListener = (message: RelayEvent) => void;
+
+export interface RelayClient {
+  send: (message: ClientMessage) => void;
+  subscribe: (listener: RelayListener) => () => void;
+  close: () => void;
+}
+
+export const relayUrl = (): string => process.env.RELAY_URL || DEFAULT_RELAY_URL;
+
+export const createRelayClient = (url: string = relayUrl()): RelayClient => {
+  const socket = new WebSocket(url);
+  const listeners = new Set<RelayListener>();
+  const queue: string[] = [];
+  let closing = false;
+
+  const emit = (message: RelayEvent) => listeners.forEach(listener => listener(message));
+
+  socket.addEventListener('open', () => {
+    queue.forEach(data => socket.send(data));
+    queue.length = 0;
+  });
+  socket.addEventListener('message', (event) => {
+    try {
+      const message = JSON.parse(event.data) as ServerMessage;
+      // JSON has no Infinity: a slip without a time arrives as null
+      if (message.type === 'result') message.result.slips.forEach(slip => { slip.et ??= Infinity; });
+      emit(message);
+    } catch (e) {
+      console.error("Bad relay message", e);
+    }
+  });
+  socket.addEventListener('close', () => {
+    if (!closing) emit({ type: 'closed', message: `Lost connection to the relay at ${url}` });
+  });
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) socket.send(data);
+      else if (socket.readyState === WebSocket.CONNECTING) queue.push(data);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    close: () => {
+      closing = true;
+      socket.close();
+    },
+  };
+};
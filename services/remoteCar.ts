@@ -0,0 +1,87 @@
+import { CarSnapshot } from '../types';
+import { DT, NET_INTERPOLATION_DELAY, NET_MAX_EXTRAPOLATION } from '../constants';
+import { CarPhysicsState } from './physicsEngine';
+
+// An online rival's car: drawn from the state messages it sends instead of simulated.
+// It is shown slightly in the past so there are usually two states to interpolate
+// between, which hides uneven message arrival.
+
+export interface RemoteFeed {
+  snapshots: CarSnapshot[]; // Oldest first, as received
+}
+
+// Two seconds of history is plenty to interpolate through a stall
+const FEED_SIZE = 120;
+
+export const createRemoteFeed = (): RemoteFeed => ({ snapshots: [] });
+
+export const pushSnapshot = (feed: RemoteFeed, snapshot: CarSnapshot) => {
+  feed.snapshots.push(snapshot);
+  if (feed.snapshots.length > FEED_SIZE) feed.snapshots.shift();
+};
+
+export const carSnapshot = (car: CarPhysicsState, t: number, staged: boolean): CarSnapshot => ({
+  t,
+  staged,
+  distance: car.distance,
+  speed: car.speed,
+  rpm: car.rpm,
+  gear: car.gear,
+  launched: car.launched,
+  finished: car.finished,
+  finishTime: car.finishTime,
+  reactionTime: car.reactionTime,
+  redLight: car.redLight,
+  dnf: car.dnf,
+  wheelSpin: car.wheelSpin,
+  throttle: car.throttle,
+  inBurnout: car.inBurnout,
+  nitrousActive: car.nitrousActive,
+});
+
+const applySnapshot = (car: CarPhysicsState, s: CarSnapshot) => {
+  car.distance = s.distance;
+  car.speed = s.speed;
+  car.rpm = s.rpm;
+  car.gear = s.gear;
+  car.launched = s.launched;
+  car.finished = s.finished;
+  car.finishTime = s.finishTime;
+  car.reactionTime = s.reactionTime;
+  car.redLight = s.redLight;
+  car.dnf = s.dnf;
+  car.wheelSpin = s.wheelSpin;
+  car.throttle = s.throttle;
+  car.inBurnout = s.inBurnout;
+  car.nitrousActive = s.nitrousActive;
+};
+
+// Places the remote car where it was `NET_INTERPOLATION_DELAY` ticks before `t`
+// (ticks since our own green). Replaces the ghost's replay lookup for online lanes.
+export const updateRemoteCar = (car: CarPhysicsState, feed: RemoteFeed, t: number) => {
+  const { snapshots } = feed;
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) return;
+  // Still in the burnout box: nothing to line up yet
+  if (!latest.staged) {
+    applySnapshot(car, latest);
+    return;
+  }
+
+  const renderT = t - NET_INTERPOLATION_DELAY;
+  let i = snapshots.length - 1;
+  while (i > 0 && snapshots[i - 1].staged && snapshots[i].t > renderT) i--;
+  const from = snapshots[i];
+  applySnapshot(car, from);
+
+  const to = snapshots[i + 1];
+  if (to && from.t < renderT) {
+    const progress = (renderT - from.t) / (to.t - from.t);
+    car.distance = from.distance + (to.distance - from.distance) * progress;
+    car.speed = from.speed + (to.speed - from.speed) * progress;
+    car.rpm = from.rpm + (to.rpm - from.rpm) * progress;
+  } else if (!to && from.launched && !from.finished && !from.dnf) {
+    // Messages are late: keep it rolling for a moment rather than freezing it
+    car.distance = from.distance + from.speed * Math.min(Math.max(0, renderT - from.t), NET_MAX_EXTRAPOLATION) * DT;
+  }
+};
@@ -0,0 +1,21 @@
+// Seeded pseudo-random number generator (mulberry32).
+// Everything that needs randomness during a race takes one of these instead of
+// calling Math.random(), so a run can be reproduced exactly from its seed.
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Next seed from a seeded source, e.g. one race after another from a session's first seed
+export const nextSeed = (rng: Rng): number => Math.floor(rng() * 0xffffffff);
+
+// Fresh seed for a new race (the only place non-determinism is allowed in)
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff);
@@ -0,0 +1,82 @@
+import { CarStats, GhostDataPoint, TrackId } from '../types';
+import { resolveEngine } from './engineProfiles';
+import { gearCount } from './gearbox';
+import { simulateRace } from './raceSimulator';
+
+// Solo passes: timeslip splits measured from the recorded run, and the practice shift points.
+
+export interface SplitMarker {
+  label: string;
+  meters: number;
+}
+
+const FOOT = 0.3048;
+
+const SPLIT_MARKERS: SplitMarker[] = [
+  { label: '60 ft', meters: 60 * FOOT },
+  { label: '330 ft', meters: 330 * FOOT },
+  { label: '1/8 mile', meters: 660 * FOOT },
+  { label: '1000 ft', meters: 1000 * FOOT },
+];
+
+// The markers a strip has room for; one that lands on the finish (within a metre) is the finish
+export const splitMarkers = (lengthMeters: number): SplitMarker[] =>
+  SPLIT_MARKERS
+    .filter(marker => marker.meters <= lengthMeters + 1)
+    .map(marker => ({ ...marker, meters: Math.min(marker.meters, lengthMeters) }));
+
+// Elapsed time at each marker, interpolated between recorded points (null until it's reached)
+export const splitTimes = (data: GhostDataPoint[], markers: SplitMarker[]): (number | null)[] => {
+  const times: (number | null)[] = markers.map(() => null);
+  let m = 0;
+  for (let i = 1; i < data.length && m < markers.length; i++) {
+    const p1 = data[i - 1];
+    const p2 = data[i];
+    while (m < markers.length && p2.d >= markers[m].meters) {
+      const progress = p2.d > p1.d ? (markers[m].meters - p1.d) / (p2.d - p1.d) : 1;
+      times[m] = p1.t + (p2.t - p1.t) * Math.max(0, progress);
+      m++;
+    }
+  }
+  return times;
+};
+
+const SHIFT_SEARCH_STEP = 100; // rpm
+const shiftCache = new Map<string, number[]>();
+
+// Per-gear shift points (index 0 = the 1→2 shift) that give the quickest headless pass on
+// this strip, searched a gear at a time inside the PERFECT window so each shift also earns
+// the bonus. Cached per build and strip, since it runs a few dozen passes.
+export const idealShiftRpms = (stats: CarStats, trackId: TrackId): number[] => {
+  const key = JSON.stringify([stats, trackId]);
+  const cached = shiftCache.get(key);
+  if (cached) return cached;
+
+  const engine = resolveEngine(stats);
+  const gears = engine.singleGear ? 1 : gearCount(stats);
+  const rpms: number[] = Array(gears - 1).fill(Math.round((engine.shiftMin + engine.shiftMax) / 2));
+  const passTime = (points: number[]) => simulateRace({
+    stats,
+    strategy: (car) => car.rpm >= points[car.gear - 1],
+    opponentStats: stats,
+    trackId,
+    burnoutTime: 2,
+    seed: 1,
+  }).playerTime;
+
+  for (let gear = 0; gear < rpms.length; gear++) {
+    let best = passTime(rpms);
+    for (let rpm = engine.shiftMin + SHIFT_SEARCH_STEP; rpm < engine.shiftMax; rpm += SHIFT_SEARCH_STEP) {
+      const trial = [...rpms];
+      trial[gear] = rpm;
+      const time = passTime(trial);
+      if (time < best) {
+        best = time;
+        rpms[gear] = rpm;
+      }
+    }
+  }
+
+  shiftCache.set(key, rpms);
+  return rpms;
+};
@@ -0,0 +1,22 @@
+import { CarStats } from '../types';
+import {
+  TIRE_OPTIMAL_BASE, TIRE_OPTIMAL_PER_GRIP, TIRE_WINDOW, TIRE_COLD_RANGE,
+  TIRE_COLD_PENALTY_MAX, TIRE_OVERHEAT_LOSS
+} from '../constants';
+
+// Tire temperature model. Street compounds (low Grip) work cold but never get great;
+// slicks (high Grip) need a proper burnout to come in.
+
+export const optimalTireTemp = (stats: CarStats): number =>
+  TIRE_OPTIMAL_BASE + stats.grip * TIRE_OPTIMAL_PER_GRIP;
+
+// Grip multiplier at a tire temperature, 1 inside the window
+export const tireGripFactor = (stats: CarStats, temp: number): number => {
+  const delta = temp - optimalTireTemp(stats);
+  if (delta < 0) {
+    const compound = 0.15 + 0.85 * (stats.grip - 1) / 9;
+    return 1 - TIRE_COLD_PENALTY_MAX * compound * Math.min(1, -delta / TIRE_COLD_RANGE);
+  }
+  if (delta <= TIRE_WINDOW) return 1;
+  return Math.max(0.6, 1 - (delta - TIRE_WINDOW) * TIRE_OVERHEAT_LOSS);
+};
@@ -0,0 +1,230 @@
+import {
+  CarStats, Opponent, RaceResult, StatKey, TournamentMatch, TournamentRival, TournamentState, TrackId
+} from '../types';
+import { MAX_LEVEL, TOURNAMENT_RETUNE_POINTS } from '../constants';
+import { GeneratedOpponent } from './opponentGenerator';
+import { generateOpponentStats } from './opponentStats';
+import { opponentDifficulty, opponentStatBudget } from './progression';
+import { rollDriverProfile, scaleDriver } from './driverProfiles';
+import { SimulatedDriver, simulateAiRace } from './raceSimulator';
+import { createRng } from './rng';
+import { clampGearbox } from './gearbox';
+
+// Elimination tournament: one qualifying pass each seeds a single-elimination bracket of
+// best-of-N matches. The player's races are run for real; everything else is simulated.
+
+export const TOURNAMENT_SIZES = [8, 16];
+export const BEST_OF_OPTIONS = [1, 3, 5];
+export const PLAYER = 0; // The player is always entrant 0
+const QUALIFYING_PARTNER = 1; // Pairs with the player for the qualifying pass
+
+export interface TournamentOptions {
+  size: number;
+  bestOf: number;
+  trackId: TrackId;
+  level: number; // Player level; the field is drawn around it
+  rivals: GeneratedOpponent[]; // size - 1 names and paint
+  seed: number;
+}
+
+export const createTournament = ({ size, bestOf, trackId, level, rivals, seed }: TournamentOptions): TournamentState => {
+  const rng = createRng(seed);
+  const entrants = rivals.slice(0, size - 1).map(generated => {
+    // A spread of levels around the player's, so seeding means something
+    const rivalLevel = Math.max(1, Math.min(MAX_LEVEL, level - 1.5 + rng() * 3));
+    const difficulty = opponentDifficulty(rivalLevel);
+    const rival: TournamentRival = {
+      carName: generated.carName,
+      taunt: generated.taunt,
+      seed: generated.seed,
+      difficulty,
+      personality: rollDriverProfile(difficulty, rng).personality,
+      stats: generateOpponentStats(rng, opponentStatBudget(rivalLevel)),
+    };
+    return { name: generated.name, color: generated.color, rival, qualifyingTime: null };
+  });
+  return {
+    size,
+    bestOf,
+    trackId,
+    seed,
+    entrants: [{ name: 'You', color: '#00f0ff', rival: null, qualifyingTime: null }, ...entrants],
+    rounds: [],
+    roundStats: null,
+    champion: null,
+  };
+};
+
+export const isQualifying = (t: TournamentState): boolean => t.rounds.length === 0;
+
+export const winsNeeded = (t: TournamentState): number => Math.ceil(t.bestOf / 2);
+
+export const matchWins = (match: TournamentMatch): [number, number] => [
+  match.races.filter(r => r.aWon).length,
+  match.races.filter(r => !r.aWon).length,
+];
+
+// The entrant as a race opponent; the caller paints its livery from `seed`
+export const entrantOpponent = (t: TournamentState, index: number): Opponent => {
+  const { name, color, rival } = t.entrants[index];
+  if (!rival) throw new Error('The player is not an opponent');
+  return {
+    name,
+    color,
+    carName: rival.carName,
+    taunt: rival.taunt,
+    seed: rival.seed,
+    difficulty: rival.difficulty,
+    driver: scaleDriver(rival.personality, rival.difficulty),
+    stats: rival.stats,
+  };
+};
+
+const simDriver = (t: TournamentState, index: number): SimulatedDriver => {
+  const opponent = entrantOpponent(t, index);
+  return { stats: opponent.stats, driver: opponent.driver!, difficulty: opponent.difficulty };
+};
+
+// Who the player races next: the qualifying partner, then their open match; null once they're out
+export const playerOpponent = (t: TournamentState): number | null => {
+  if (isQualifying(t)) return QUALIFYING_PARTNER;
+  const match = playerMatch(t);
+  return match ? (match.a === PLAYER ? match.b : match.a) : null;
+};
+
+export const playerMatch = (t: TournamentState): TournamentMatch | null =>
+  t.rounds[t.rounds.length - 1].find(m => (m.a === PLAYER || m.b === PLAYER) && m.winner === null) ?? null;
+
+// Retuning between rounds: stat points moved since the round started
+export const retunePointsUsed = (base: CarStats, stats: CarStats): number =>
+  (['acceleration', 'topSpeed', 'grip'] as StatKey[]).reduce((sum, key) => sum + Math.abs(stats[key] - base[key]), 0) / 2;
+
+// The gearbox, nitrous kit and painted chassis/aero stay as the round started; only the final
+// drive follows the Top Speed points, the way the Garage clamps it
+export const withRoundParts = (base: CarStats, stats: CarStats): CarStats => ({
+  ...stats,
+  gearbox: base.gearbox && clampGearbox(base.gearbox, stats.topSpeed),
+  nitrous: base.nitrous,
+  chassis: base.chassis,
+  aero: base.aero,
+});
+
+const sameParts = (base: CarStats, stats: CarStats): boolean => {
+  const locked = withRoundParts(base, stats);
+  return (['gearbox', 'nitrous', 'chassis', 'aero'] as const)
+    .every(key => JSON.stringify(stats[key]) === JSON.stringify(locked[key]));
+};
+
+// Only stat points move between rounds: no engine swaps or parts changes mid-tournament
+export const withinRetuneBudget = (t: TournamentState, stats: CarStats): boolean =>
+  !t.roundStats || (
+    retunePointsUsed(t.roundStats, stats) <= TOURNAMENT_RETUNE_POINTS &&
+    (stats.engine ?? 'STOCK') === (t.roundStats.engine ?? 'STOCK') &&
+    sameParts(t.roundStats, stats)
+  );
+
+const clone = (t: TournamentState): TournamentState => ({
+  ...t,
+  entrants: t.entrants.map(e => ({ ...e })),
+  rounds: t.rounds.map(round => round.map(m => ({ ...m, races: [...m.races] }))),
+});
+
+// Bracket slots for seeds 1..size so the top seeds only meet late (1v8, 4v5, 2v7, 3v6)
+const seedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap(seed => [seed, n + 1 - seed]);
+  }
+  return order;
+};
+
+// Entrant indices, quickest qualifier first; DNFs last
+const seeding = (t: TournamentState): number[] =>
+  t.entrants.map((_, i) => i).sort((x, y) =>
+    (t.entrants[x].qualifyingTime ?? Infinity) - (t.entrants[y].qualifyingTime ?? Infinity) || x - y);
+
+const seedRank = (t: TournamentState, index: number): number => seeding(t).indexOf(index);
+
+const packageOf = (time: number, reaction: number): number | null =>
+  Number.isFinite(time) && reaction >= 0 ? reaction + time : null;
+
+const decide = (t: TournamentState, match: TournamentMatch) => {
+  const [aWins, bWins] = matchWins(match);
+  if (aWins >= winsNeeded(t)) match.winner = match.a;
+  else if (bWins >= winsNeeded(t)) match.winner = match.b;
+};
+
+const simulateMatch = (t: TournamentState, round: number, index: number) => {
+  const match = t.rounds[round][index];
+  while (match.winner === null) {
+    const race = simulateAiRace(simDriver(t, match.a), simDriver(t, match.b), {
+      trackId: t.trackId, seed: t.seed + round * 1000 + index * 50 + match.races.length + 1,
+    });
+    match.races.push({
+      aWon: race.aWon,
+      aTime: packageOf(race.aTime, race.aReactionTime),
+      bTime: packageOf(race.bTime, race.bReactionTime),
+    });
+    decide(t, match);
+  }
+};
+
+// Draws a round from `entrants` in bracket order and plays out every match the player isn't in
+const drawRound = (t: TournamentState, entrants: number[], stats: CarStats) => {
+  const round: TournamentMatch[] = [];
+  for (let i = 0; i < entrants.length; i += 2) {
+    const [a, b] = seedRank(t, entrants[i]) <= seedRank(t, entrants[i + 1])
+      ? [entrants[i], entrants[i + 1]] : [entrants[i + 1], entrants[i]];
+    round.push({ a, b, races: [], winner: null });
+  }
+  t.rounds.push(round);
+  t.roundStats = { ...stats };
+  round.forEach((match, i) => {
+    if (match.a !== PLAYER && match.b !== PLAYER) simulateMatch(t, t.rounds.length - 1, i);
+  });
+};
+
+// Once every match in the round is decided, draws the next one (or crowns the champion).
+// With the player knocked out, the rest of the bracket plays out at once.
+const advance = (t: TournamentState, stats: CarStats) => {
+  while (t.champion === null) {
+    const round = t.rounds[t.rounds.length - 1];
+    if (round.some(m => m.winner === null)) return;
+    if (round.length === 1) {
+      t.champion = round[0].winner;
+      return;
+    }
+    drawRound(t, round.map(m => m.winner!), stats);
+  }
+};
+
+// Qualifying: the player's pass (and their partner's) from the live race, the rest simulated
+export const recordQualifying = (t: TournamentState, result: RaceResult, stats: CarStats): TournamentState => {
+  const next = clone(t);
+  next.entrants[PLAYER].qualifyingTime = Number.isFinite(result.playerTime) ? result.playerTime : null;
+  next.entrants[QUALIFYING_PARTNER].qualifyingTime = Number.isFinite(result.enemyTime) ? result.enemyTime : null;
+  for (let i = QUALIFYING_PARTNER + 1; i < next.entrants.length; i += 2) {
+    const race = simulateAiRace(simDriver(next, i), simDriver(next, i + 1), { trackId: next.trackId, seed: next.seed + i });
+    next.entrants[i].qualifyingTime = Number.isFinite(race.aTime) ? race.aTime : null;
+    next.entrants[i + 1].qualifyingTime = Number.isFinite(race.bTime) ? race.bTime : null;
+  }
+
+  const seeds = seeding(next);
+  drawRound(next, seedOrder(next.size).map(seed => seeds[seed - 1]), stats);
+  return next;
+};
+
+export const recordPlayerRace = (t: TournamentState, result: RaceResult, stats: CarStats): TournamentState => {
+  const next = clone(t);
+  const match = playerMatch(next);
+  if (!match) return t;
+  const player = packageOf(result.playerTime, result.reactionTime);
+  const rival = packageOf(result.enemyTime, result.enemyReactionTime);
+  match.races.push(match.a === PLAYER
+    ? { aWon: result.playerWon, aTime: player, bTime: rival }
+    : { aWon: !result.playerWon, aTime: rival, bTime: player });
+  decide(next, match);
+  advance(next, stats);
+  return next;
+};
@@ -0,0 +1,70 @@
+import { SurfacePrep, TrackId } from '../types';
+
+// Drag strips: distance plus the conditions the physics runs in.
+
+export interface TrackDefinition {
+  id: TrackId;
+  name: string;
+  distanceLabel: string;
+  lengthMeters: number;
+  surface: SurfacePrep;
+  altitude: number; // meters above sea level
+  temperature: number; // °C
+}
+
+// Tire grip multiplier for each surface
+export const SURFACE_GRIP: Record<SurfacePrep, number> = {
+  PREPPED: 1.0, // VHT-glued starting line
+  STREET: 0.85,
+  WET: 0.6,
+};
+
+export const TRACKS: Record<TrackId, TrackDefinition> = {
+  EIGHTH_MILE: {
+    id: 'EIGHTH_MILE',
+    name: 'Dockside Eighth',
+    distanceLabel: '1/8 Mile',
+    lengthMeters: 201,
+    surface: 'STREET',
+    altitude: 5,
+    temperature: 24,
+  },
+  THOUSAND_FOOT: {
+    id: 'THOUSAND_FOOT',
+    name: 'Storm Drain 1000',
+    distanceLabel: '1000 ft',
+    lengthMeters: 304.8,
+    surface: 'WET',
+    altitude: 120,
+    temperature: 9,
+  },
+  QUARTER_MILE: {
+    id: 'QUARTER_MILE',
+    name: 'Neon Strip',
+    distanceLabel: '1/4 Mile',
+    lengthMeters: 402,
+    surface: 'PREPPED',
+    altitude: 0,
+    temperature: 15,
+  },
+  HALF_MILE: {
+    id: 'HALF_MILE',
+    name: 'High Desert Half',
+    distanceLabel: '1/2 Mile',
+    lengthMeters: 804.7,
+    surface: 'PREPPED',
+    altitude: 1600,
+    temperature: 32,
+  },
+};
+
+export const DEFAULT_TRACK_ID: TrackId = 'QUARTER_MILE';
+
+export const resolveTrack = (id: TrackId = DEFAULT_TRACK_ID): TrackDefinition => TRACKS[id];
+
+// International Standard Atmosphere pressure at altitude, ideal gas density at temperature.
+// Sea level at 15 °C gives the textbook 1.225 kg/m^3.
+export const airDensity = (track: TrackDefinition): number => {
+  const pressure = 101325 * Math.pow(1 - 2.25577e-5 * track.altitude, 5.25588);
+  return pressure / (287.05 * (track.temperature + 273.15));
+};
@@ -2,20 +2,77 @@ export enum GameState {
   MENU = 'MENU',
   GARAGE = 'GARAGE',
   DESIGN = 'DESIGN',
+  GEARBOX = 'GEARBOX',
   RACE_INTRO = 'RACE_INTRO',
   RACING = 'RACING',
   RESULT = 'RESULT',
+  CAREER = 'CAREER',
+  TOURNAMENT = 'TOURNAMENT',
+  VERSUS_SETUP = 'VERSUS_SETUP',
+  VERSUS_RACING = 'VERSUS_RACING',
+  VERSUS_RESULT = 'VERSUS_RESULT',
+  ONLINE_LOBBY = 'ONLINE_LOBBY',
 }
 
+// What the current race counts towards
+export type GameMode = 'QUICK_RACE' | 'CAREER' | 'TOURNAMENT' | 'VERSUS' | 'ONLINE' | 'TIME_TRIAL';
+
+export interface NitrousSetup {
+  bottleSize: number; // lb of N2O (0 = no system fitted)
+  shotSize: number;   // Horsepower added while the shot is flowing
+}
+
+export interface Gearbox {
+  ratios: number[];   // 1st gear first, MIN_GEARS to MAX_GEARS entries, strictly descending
+  finalDrive: number;
+}
+
+export type EngineType = 'STOCK' | 'HIGH_REV' | 'TURBO' | 'V8' | 'ELECTRIC';
+
 export interface CarStats {
   acceleration: number; // Affects Engine Torque
   topSpeed: number;     // Affects Gear Ratio (Final Drive)
   grip: number;         // Affects Traction Limit
+  nitrous?: NitrousSetup; // Tuning choice, not paid for with stat points
+  gearbox?: Gearbox; // Custom gearing; stock box with a stat-based final drive when absent
+  engine?: EngineType; // Engine profile; STOCK when absent
+  chassis?: ChassisGeometry; // From the painted design; stock drag chassis when absent
+  aero?: AeroProfile; // From the painted design; stock body with a Grip-stat wing when absent
+  engineDamage?: number; // Wear carried between races, 0 (fresh) to 1 (blown); repaired in the Garage
+}
+
+export type DnfReason = 'CRASH' | 'BLOWN_ENGINE';
+
+// The three point-budgeted stats
+export type StatKey = 'acceleration' | 'topSpeed' | 'grip';
+
+export type TreeType = 'PRO' | 'SPORTSMAN'; // Pro: all ambers at once. Sportsman: ambers count down
+
+export type TrackId = 'EIGHTH_MILE' | 'THOUSAND_FOOT' | 'QUARTER_MILE' | 'HALF_MILE';
+
+export type SurfacePrep = 'PREPPED' | 'STREET' | 'WET'; // How much grip the starting line offers
+
+// Wheelbase and center of gravity, in meters
+export interface ChassisGeometry {
+  wheelbase: number;
+  cgHeight: number; // CG above the ground
+  cgToRearAxle: number; // CG ahead of the rear axle
+}
+
+// Aero package, measured from the painted silhouette
+export interface AeroProfile {
+  cd: number; // Drag coefficient
+  cl: number; // Downforce coefficient
+  frontalArea: number; // m^2
+  noseSlope: number; // Degrees, 0 = blunt
+  wingArea: number; // m^2 of rear wing, 0 = none
 }
 
 export interface CarDesign {
   imageData: string; // Base64 image of the chassis
   wheelPositions: { x: number; y: number }[]; // Array of exactly 2 coordinates (percent relative to width/height)
+  chassis?: ChassisGeometry; // Measured from the axles and paint when the design is saved
+  aero?: AeroProfile; // Measured from the silhouette when the design is saved
 }
 
 export interface GhostDataPoint {
@@ -30,6 +87,23 @@ export interface GhostReplay {
   data: GhostDataPoint[];
   date: number;
   design?: CarDesign;
+  reactionTime?: number; // Ghost leaves the line this long after green
+  trackId?: TrackId; // Saved before track selection existed = QUARTER_MILE
+}
+
+export type DriverPersonality = 'ROOKIE' | 'SMOOTH' | 'AGGRESSIVE' | 'VETERAN';
+
+// How an AI opponent drives. Every number is something you could watch it do.
+export interface DriverProfile {
+  personality: DriverPersonality;
+  reactionTime: number; // Mean seconds from green to launch
+  reactionSpread: number; // Random ± seconds around the mean
+  launchRpmShare: number; // Share of the engine's clean launch RPM held on the line
+  shiftTarget: number; // Aim point in the PERFECT window, 0 (shiftMin) to 1 (shiftMax)
+  shiftSpread: number; // Random ± around the aim point, as a share of the window
+  spinReaction: number; // Seconds of wheelspin before feathering the throttle (Infinity = rides it out)
+  nitrousGear: number; // Gear the shot goes in (0 = never)
+  mistakeRate: number; // Chance per shift of botching it (lugs the engine or bangs the limiter)
 }
 
 export interface Opponent {
@@ -37,16 +111,185 @@ export interface Opponent {
   carName: string;
   taunt: string;
   difficulty: number; // 0.8 to 1.2 (reaction time/shift quality modifier)
+  driver?: DriverProfile; // Rolled from difficulty when missing
   color: string;
+  seed?: number; // Generator seed; same seed, same rival
+  design?: CarDesign; // Procedural livery for AI rivals
   stats: CarStats; // AI uses same physics model
   isGhost?: boolean; // Flag to indicate this opponent is a replay
 }
 
+export type ShiftGrade = 'PERFECT' | 'GOOD' | 'EARLY' | 'LATE';
+
+export interface ShiftRecord {
+  fromGear: number;
+  rpm: number; // RPM the shift was made at
+  grade: ShiftGrade;
+  time: number; // Seconds after launch
+}
+
+// One AI race, kept so the crew chief can look for patterns in a build
+export interface RunRecord {
+  build: string; // Stat spread and engine raced, e.g. "8/5/5 TURBO"
+  trackId: TrackId;
+  won: boolean;
+  dnf: DnfReason | null;
+  et: number | null; // Null for a DNF
+  margin: number | null; // Package-time margin, seconds (> 0 = ahead)
+  reactionTime: number;
+  launchRpm: number;
+  launchTireGrip: number;
+  gearSpinTime: number[];
+  limiterTime: number;
+  shifts: ShiftRecord[];
+  opponentStats: CarStats;
+  date: number;
+}
+
+// Career progress, persisted between sessions
+export interface CareerSave {
+  cash: number;
+  reputation: number;
+  tier: number; // Current tier (CAREER_TIERS.length once the final boss is down)
+  rung: number; // Next rival to beat in the tier; the last rung is the boss
+  beaten: string[]; // Ids of every rival beaten at least once
+}
+
+// A computer entrant in a tournament. Stored by personality rather than DriverProfile so it
+// survives JSON (a rookie's spinReaction is Infinity).
+export interface TournamentRival {
+  carName: string;
+  taunt: string;
+  seed: number; // Livery seed
+  difficulty: number;
+  personality: DriverPersonality;
+  stats: CarStats;
+}
+
+export interface TournamentEntrant {
+  name: string;
+  color: string;
+  rival: TournamentRival | null; // Null for the player (always entrant 0)
+  qualifyingTime: number | null; // ET of the qualifying pass; null until run, or for a DNF
+}
+
+export interface TournamentRace {
+  aWon: boolean;
+  aTime: number | null; // Package time (reaction + ET); null for a DNF or red light
+  bTime: number | null;
+}
+
+export interface TournamentMatch {
+  a: number; // Entrant indices; `a` is the higher seed
+  b: number;
+  races: TournamentRace[];
+  winner: number | null;
+}
+
+// A whole tournament, persisted so it survives a reload
+export interface TournamentState {
+  size: number; // Entrants, 8 or 16
+  bestOf: number; // Races per match
+  trackId: TrackId;
+  seed: number; // Base seed for the simulated races
+  entrants: TournamentEntrant[];
+  rounds: TournamentMatch[][]; // Empty until qualifying is done; later rounds are drawn as they start
+  roundStats: CarStats | null; // Player's build at the start of the round; retunes are measured from it
+  champion: number | null;
+}
+
+// A car kept from the Garage, for picking in local versus races
+export interface SavedBuild {
+  id: string;
+  name: string;
+  stats: CarStats;
+  design?: CarDesign;
+}
+
+// One car in a local versus race
+export interface VersusEntry {
+  name: string; // "Player 1", "Player 2"
+  stats: CarStats;
+  design?: CarDesign;
+}
+
+// One lane's timeslip from a head-to-head race (local or online)
+export interface Timeslip {
+  name: string;
+  reactionTime: number; // Negative = red light
+  redLight: boolean;
+  sixtyFootTime: number;
+  et: number; // Infinity if the car didn't finish
+  trapSpeed: number; // km/h at the stripe (0 if it didn't finish)
+  perfectShifts: number;
+  dnf: DnfReason | null;
+}
+
+export interface VersusResult {
+  slips: [Timeslip, Timeslip];
+  winner: 0 | 1;
+  trackId: TrackId;
+}
+
+// A driver input in a live race, stamped with the session tick it was applied before.
+// Online passes are re-run from these on the relay to check the time.
+export type RaceInputKind = 'THROTTLE_ON' | 'THROTTLE_OFF' | 'STAGE' | 'LAUNCH' | 'SHIFT' | 'NITROUS';
+
+export interface RaceInput {
+  tick: number;
+  kind: RaceInputKind;
+}
+
+// A remote car's state as sent over the network
+export interface CarSnapshot {
+  t: number; // Ticks since the sender's green light (negative before it)
+  staged: boolean; // Out of the burnout box; `t` means nothing until then
+  distance: number;
+  speed: number;
+  rpm: number;
+  gear: number;
+  launched: boolean;
+  finished: boolean;
+  finishTime: number;
+  reactionTime: number;
+  redLight: boolean;
+  dnf: DnfReason | null;
+  wheelSpin: boolean;
+  throttle: boolean;
+  inBurnout: boolean;
+  nitrousActive: boolean;
+}
+
+// Persisted between sessions
+export interface PlayerProfile {
+  xp: number; // Lifetime XP; the level is derived from it
+  wins: number;
+  losses: number;
+  streak: number; // Current run: > 0 wins in a row, < 0 losses in a row
+}
+
 export interface RaceResult {
-  playerTime: number;
+  playerTime: number; // ET, launch to finish (Infinity if the car didn't finish)
   enemyTime: number;
+  dnf: DnfReason | null; // Why the player's run ended early
   playerWon: boolean;
+  reactionTime: number; // Seconds from green to launch (negative = red light)
+  enemyReactionTime: number;
+  redLight: boolean; // Player left before green
+  enemyRedLight: boolean;
+  launchRpm: number; // RPM at the clutch dump
+  launchWheelspin: number; // Seconds of wheelspin off the line
+  launchTireTemp: number; // °C at the clutch dump
+  launchTireGrip: number; // Grip multiplier the tires launched with (1 = in the window)
+  gearSpinTime: number[]; // Seconds of wheelspin in each gear (index 0 = 1st)
+  limiterTime: number; // Seconds on the rev limiter during the run
+  sixtyFootTime: number;
+  nitrousActivatedAt: number | null; // Seconds after launch the shot was triggered
   maxSpeed: number;
   perfectShifts: number;
+  shifts: ShiftRecord[];
+  engineDamage: number; // Engine wear after the run
+  trackId: TrackId;
+  seed: number; // The race's seed; the same inputs on it replay this race
   replayData: GhostDataPoint[]; // Return the recording
 }
\ No newline at end of file